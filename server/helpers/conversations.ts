@@ -0,0 +1,25 @@
+import { Types } from 'mongoose';
+import { Message } from '../models/Message';
+
+// Roles that may start a direct conversation; everyone else can only reply
+const CONVERSATION_STARTER_ROLES = ['organization', 'admin', 'mentor'];
+
+/**
+ * Whether a user may message another directly. Anyone may write in an existing
+ * conversation; only organizations, admins and mentors can start a new one.
+ */
+export async function canMessageUser(sender: { id: string; role?: string }, receiverId: string): Promise<boolean> {
+  if (sender.role && CONVERSATION_STARTER_ROLES.includes(sender.role)) {
+    return true;
+  }
+
+  const senderId = new Types.ObjectId(sender.id);
+  const receiverIdObj = new Types.ObjectId(receiverId);
+  const existingMessage = await Message.exists({
+    $or: [
+      { sender: senderId, receiver: receiverIdObj },
+      { sender: receiverIdObj, receiver: senderId },
+    ],
+  });
+  return !!existingMessage;
+}
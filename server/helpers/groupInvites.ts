@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+
+// Letters and digits that can't be mistaken for one another when read aloud or typed
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long invites last unless the admin picks otherwise
+export const DEFAULT_INVITE_EXPIRY_HOURS = 7 * 24;
+export const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+
+export function generateInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes are shown in upper case but accepted however they were typed
+export function normalizeInviteCode(code: string): string {
+  return (code || '').trim().toUpperCase();
+}
+
+export function getInviteExpiry(expiresInHours: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + expiresInHours * HOUR_MS);
+}
+
+// Reason an invite can no longer be used, or null if it is still valid
+export function getInviteError(invite: any, now: Date = new Date()): string | null {
+  if (invite.revokedAt) return 'This invite has been revoked';
+  if (invite.expiresAt <= now) return 'This invite has expired';
+  if (invite.maxUses && invite.uses >= invite.maxUses) return 'This invite has reached its maximum number of uses';
+  return null;
+}
+
+// Query matching invites with uses left, for atomic updates
+export function inviteUsesLeftFilter() {
+  return { $or: [{ maxUses: null }, { $expr: { $lt: ['$uses', '$maxUses'] } }] };
+}
+
+// Query matching invites that can still be used, for atomic updates
+export function usableInviteFilter(now: Date = new Date()) {
+  return {
+    revokedAt: null,
+    expiresAt: { $gt: now },
+    ...inviteUsesLeftFilter(),
+  };
+}
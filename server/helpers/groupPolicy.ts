@@ -0,0 +1,99 @@
+import { Types } from 'mongoose';
+import { OpportunityMentor } from '../models/OpportunityMentor';
+
+// Things a user may do with a group
+export type GroupAction =
+  | 'view'
+  | 'send_message'
+  | 'update_group'
+  | 'add_members'
+  | 'manage_invites'
+  | 'remove_members'
+  | 'delete_messages'
+  | 'manage_admins'
+  | 'transfer_ownership'
+  | 'leave_group'
+  | 'delete_group';
+
+// How a user relates to a group: their platform role, or their place in the group
+export type GroupPrincipal =
+  | 'platform_admin'
+  | 'organization'
+  | 'creator'
+  | 'group_admin'
+  | 'opportunity_mentor'
+  | 'member';
+
+// People responsible for the group itself
+const GROUP_MODERATORS: GroupPrincipal[] = ['creator', 'group_admin', 'opportunity_mentor'];
+
+// Moderators plus the platform roles that oversee every group
+const GROUP_MANAGERS: GroupPrincipal[] = ['platform_admin', 'organization', ...GROUP_MODERATORS];
+
+/**
+ * Who may perform each action. A user may perform an action if any of their
+ * principals is listed; this is the only place group permissions are decided.
+ */
+export const GROUP_POLICY: Record<GroupAction, GroupPrincipal[]> = {
+  view: ['member'],
+  send_message: ['member'],
+  update_group: GROUP_MANAGERS,
+  // Also covers accepting and rejecting join requests
+  add_members: GROUP_MANAGERS,
+  // Creating, listing and revoking invite codes
+  manage_invites: GROUP_MANAGERS,
+  remove_members: GROUP_MANAGERS,
+  // Removing other people's messages
+  delete_messages: GROUP_MODERATORS,
+  // Promoting members to admin and demoting admins
+  manage_admins: GROUP_MANAGERS,
+  // Handing the group to another member
+  transfer_ownership: ['platform_admin', 'creator'],
+  leave_group: ['member'],
+  delete_group: GROUP_MANAGERS,
+};
+
+// Every action, in the order they are reported to clients
+export const GROUP_ACTIONS = Object.keys(GROUP_POLICY) as GroupAction[];
+
+const includesId = (ids: any[] = [], userId: string) => ids.some(id => id?.toString() === userId);
+
+/**
+ * Every principal a user holds for a group. Expects the group's `members`,
+ * `admins`, `createdBy` and `opportunityId`; mentor assignments are only
+ * looked up for volunteers in opportunity groups.
+ */
+export async function getGroupPrincipals(
+  user: { id: string; role?: string },
+  group: any
+): Promise<Set<GroupPrincipal>> {
+  const principals = new Set<GroupPrincipal>();
+
+  if (user.role === 'admin') principals.add('platform_admin');
+  if (user.role === 'organization') principals.add('organization');
+  if (group.createdBy?.toString() === user.id) principals.add('creator');
+  if (includesId(group.admins, user.id)) principals.add('group_admin');
+  if (includesId(group.members, user.id)) principals.add('member');
+
+  if (group.opportunityId && user.role === 'volunteer') {
+    const mentorAssignment = await OpportunityMentor.exists({
+      volunteer: new Types.ObjectId(user.id),
+      opportunity: group.opportunityId,
+    });
+    if (mentorAssignment) principals.add('opportunity_mentor');
+  }
+
+  return principals;
+}
+
+export function isGroupActionAllowed(principals: Set<GroupPrincipal>, action: GroupAction): boolean {
+  return GROUP_POLICY[action].some(principal => principals.has(principal));
+}
+
+export async function canPerformGroupAction(
+  user: { id: string; role?: string },
+  group: any,
+  action: GroupAction
+): Promise<boolean> {
+  return isGroupActionAllowed(await getGroupPrincipals(user, group), action);
+}
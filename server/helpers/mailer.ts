@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null = null;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT:
+ * - `smtp`: deliver through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+ * - `file`: write each mail as an .eml file to MAIL_DIR (default `./mail`)
+ * - `console` (default): print the mail to the server log
+ */
+const createTransporter = (): Transporter => {
+  const transport = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+
+  switch (transport) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is not set');
+      }
+      const port = Number(process.env.SMTP_PORT) || 587;
+      return nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      });
+    }
+    case 'file':
+      return nodemailer.createTransport({ streamTransport: true, buffer: true });
+    case 'console':
+      return nodemailer.createTransport({ jsonTransport: true });
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
+
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    transporter = createTransporter();
+  }
+  return transporter;
+};
+
+/**
+ * Send a mail through the configured transport.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const info = await getTransporter().sendMail({
+    from: process.env.MAIL_FROM || 'iLeap <no-reply@ileap.local>',
+    ...message,
+  });
+
+  const transport = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+  if (transport === 'file') {
+    const mailDir = path.resolve(process.env.MAIL_DIR || 'mail');
+    await fs.promises.mkdir(mailDir, { recursive: true });
+    const filePath = path.join(mailDir, `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`);
+    await fs.promises.writeFile(filePath, info.message as Buffer);
+    console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+  } else if (transport === 'console') {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
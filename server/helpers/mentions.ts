@@ -0,0 +1,62 @@
+import { Types } from 'mongoose';
+
+export interface MentionEntity {
+  user: Types.ObjectId;
+  // Position of the "@" and length of "@Name" within the message content
+  offset: number;
+  length: number;
+}
+
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+/**
+ * Find "@Name" mentions of group members in a message. Names are matched
+ * case-insensitively and the longest matching name wins, so "@Ann Lee" is not
+ * read as "@Ann". An "@" inside a word (e.g. an email address) is ignored.
+ */
+export function parseMentions(
+  content: string,
+  members: Array<{ _id: Types.ObjectId; name?: string }>
+): MentionEntity[] {
+  if (!content || !content.includes('@')) return [];
+
+  const candidates = members
+    .filter(member => member.name?.trim())
+    .map(member => ({ id: member._id, name: member.name!.trim().toLowerCase() }))
+    .sort((a, b) => b.name.length - a.name.length);
+  const lowerContent = content.toLowerCase();
+
+  const mentions: MentionEntity[] = [];
+  let index = lowerContent.indexOf('@');
+  while (index !== -1) {
+    const isWordStart = index === 0 || !WORD_CHARACTER.test(content[index - 1]);
+    const match = isWordStart
+      ? candidates.find(({ name }) => {
+          const after = content[index + 1 + name.length];
+          return lowerContent.startsWith(name, index + 1) && (!after || !WORD_CHARACTER.test(after));
+        })
+      : undefined;
+
+    if (match) {
+      mentions.push({ user: match.id, offset: index, length: match.name.length + 1 });
+      index = lowerContent.indexOf('@', index + match.name.length + 1);
+    } else {
+      index = lowerContent.indexOf('@', index + 1);
+    }
+  }
+
+  return mentions;
+}
+
+// Each mentioned user once, in order of first mention
+export function getMentionedUserIds(mentions: MentionEntity[]): Types.ObjectId[] {
+  const seen = new Set<string>();
+  return mentions
+    .map(mention => mention.user)
+    .filter(userId => {
+      const key = userId.toString();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,39 @@
+import { Types } from 'mongoose';
+import { NotificationSetting, NotificationMode, NotificationTargetType } from '../models/NotificationSetting';
+
+/**
+ * The mode a setting is in right now: a mute that has run out counts as `all`.
+ */
+export function getEffectiveMode(setting: { mode: NotificationMode; mutedUntil?: Date } | null): NotificationMode {
+  if (!setting) return 'all';
+  if (setting.mode === 'muted' && setting.mutedUntil && setting.mutedUntil.getTime() <= Date.now()) {
+    return 'all';
+  }
+  return setting.mode;
+}
+
+/**
+ * Of the given recipients, those whose settings for the conversation or group
+ * allow a push for an ordinary message. Mentioned users are notified
+ * separately, whatever their settings, so they shouldn't be passed here.
+ */
+export async function filterNotifiableUsers(
+  userIds: Types.ObjectId[],
+  targetType: NotificationTargetType,
+  target: Types.ObjectId
+): Promise<Types.ObjectId[]> {
+  if (userIds.length === 0) return [];
+
+  const settings = await NotificationSetting.find({
+    user: { $in: userIds },
+    targetType,
+    target,
+  })
+    .select('user mode mutedUntil')
+    .lean<Array<{ user: Types.ObjectId; mode: NotificationMode; mutedUntil?: Date }>>();
+
+  const modeByUser = new Map(settings.map(setting => [setting.user.toString(), getEffectiveMode(setting)]));
+
+  // Mentions-only and muted users get nothing for a message that doesn't mention them
+  return userIds.filter(userId => (modeByUser.get(userId.toString()) || 'all') === 'all');
+}
@@ -0,0 +1,46 @@
+import { User } from '../models/User';
+
+// Write last_seen at most once per minute per user, however many requests they make
+const LAST_SEEN_THROTTLE_MS = 60 * 1000;
+
+// When last_seen was last written, per user (this process only)
+const lastSeenWrites = new Map<string, number>();
+
+// Open socket connections per user; a user is online while they have at least one
+const connectionCounts = new Map<string, number>();
+
+/**
+ * Record activity for a user. Throttled so most calls don't touch the database;
+ * pass `force` when the exact time matters (e.g. the last socket disconnecting).
+ */
+export function touchLastSeen(userId: string, force: boolean = false): void {
+  const now = Date.now();
+  const lastWrite = lastSeenWrites.get(userId) || 0;
+  if (!force && now - lastWrite < LAST_SEEN_THROTTLE_MS) {
+    return;
+  }
+
+  lastSeenWrites.set(userId, now);
+  User.updateOne({ _id: userId }, { $set: { last_seen: new Date(now) } }).catch((error: any) => {
+    console.error('Failed to update last seen:', error);
+  });
+}
+
+export function markOnline(userId: string): void {
+  connectionCounts.set(userId, (connectionCounts.get(userId) || 0) + 1);
+  touchLastSeen(userId);
+}
+
+export function markOffline(userId: string): void {
+  const remaining = (connectionCounts.get(userId) || 1) - 1;
+  if (remaining > 0) {
+    connectionCounts.set(userId, remaining);
+    return;
+  }
+  connectionCounts.delete(userId);
+  touchLastSeen(userId, true);
+}
+
+export function isOnline(userId: string): boolean {
+  return connectionCounts.has(userId);
+}
@@ -1,37 +1,188 @@
-import { Expo, ExpoPushMessage } from 'expo-server-sdk';
+import { Expo, ExpoPushMessage, ExpoPushTicket } from 'expo-server-sdk';
+import { Types } from 'mongoose';
+import { User } from '../models/User';
+import { Session } from '../models/Session';
+import { PushTicket } from '../models/PushTicket';
+import { applyQuietHours } from './quietHours';
 
-// Create a new Expo SDK client
-const expo = new Expo();
+// The parts of the Expo SDK client we use, so tests can swap in a fake push service
+export type PushClient = Pick<
+  Expo,
+  | 'sendPushNotificationsAsync'
+  | 'getPushNotificationReceiptsAsync'
+  | 'chunkPushNotifications'
+  | 'chunkPushNotificationReceiptIds'
+>;
+
+let expo: PushClient | null = null;
+
+// Created on first use so EXPO_ACCESS_TOKEN from .env is picked up
+export function getPushClient(): PushClient {
+  if (!expo) {
+    expo = new Expo({ accessToken: process.env.EXPO_ACCESS_TOKEN });
+  }
+  return expo;
+}
+
+export function setPushClient(client: PushClient): void {
+  expo = client;
+}
+
+// Devices kept per user; the least recently registered are dropped beyond this
+const MAX_PUSH_TOKENS_PER_USER = 10;
+
+/**
+ * Every push token of a user, including the legacy single `expoPushToken`.
+ * Expects `pushTokens` and `expoPushToken` to be selected.
+ */
+export function getPushTokens(user: any): string[] {
+  const tokens: string[] = (user?.pushTokens || []).map((entry: any) => entry.token);
+  if (user?.expoPushToken) {
+    tokens.push(user.expoPushToken);
+  }
+  return Array.from(new Set(tokens.filter(Boolean)));
+}
+
+/**
+ * Register a device's token. A device has at most one entry (matched by token
+ * or device ID); the legacy single token is moved into the list. A token only
+ * ever belongs to the user who registered it last, so a shared device stops
+ * receiving the previous user's notifications.
+ */
+export async function addPushToken(
+  userId: string | Types.ObjectId,
+  entry: { token: string; platform?: string; deviceId?: string }
+): Promise<void> {
+  await User.updateMany(
+    { _id: { $ne: userId }, 'pushTokens.token': entry.token },
+    { $pull: { pushTokens: { token: entry.token } } }
+  );
+  await User.updateMany({ _id: { $ne: userId }, expoPushToken: entry.token }, { $unset: { expoPushToken: 1 } });
+
+  const user = await User.findById(userId).select('expoPushToken');
+  const legacyToken: string | undefined = user?.expoPushToken;
+
+  const staleEntries: any[] = [{ token: entry.token }];
+  if (entry.deviceId) staleEntries.push({ deviceId: entry.deviceId });
+  if (legacyToken) staleEntries.push({ token: legacyToken });
+  await User.updateOne({ _id: userId }, { $pull: { pushTokens: { $or: staleEntries } } });
+
+  const now = new Date();
+  const newEntries: any[] = [{ ...entry, lastRegisteredAt: now }];
+  if (legacyToken && legacyToken !== entry.token) {
+    // Unknown device; keep it until Expo reports it invalid or it's pushed out
+    newEntries.unshift({ token: legacyToken, lastRegisteredAt: new Date(0) });
+  }
+
+  await User.updateOne(
+    { _id: userId },
+    {
+      $push: {
+        pushTokens: {
+          $each: newEntries,
+          $sort: { lastRegisteredAt: 1 },
+          $slice: -MAX_PUSH_TOKENS_PER_USER,
+        },
+      },
+      $unset: { expoPushToken: '' },
+    }
+  );
+}
+
+/**
+ * Remove one device's token(s) by token value and/or device ID.
+ */
+export async function removePushTokens(
+  userId: string | Types.ObjectId,
+  match: { token?: string; deviceId?: string }
+): Promise<void> {
+  const conditions: any[] = [];
+  if (match.token) conditions.push({ token: match.token });
+  if (match.deviceId) conditions.push({ deviceId: match.deviceId });
+  if (conditions.length === 0) return;
+
+  await User.updateOne({ _id: userId }, { $pull: { pushTokens: { $or: conditions } } });
+  if (match.token) {
+    await User.updateOne({ _id: userId, expoPushToken: match.token }, { $unset: { expoPushToken: '' } });
+  }
+}
+
+/**
+ * Forget tokens Expo reported as no longer registered, on every user and session.
+ */
+export async function pruneInvalidPushTokens(tokens: string[]): Promise<void> {
+  const uniqueTokens = Array.from(new Set(tokens));
+  if (uniqueTokens.length === 0) return;
+
+  await User.updateMany(
+    { 'pushTokens.token': { $in: uniqueTokens } },
+    { $pull: { pushTokens: { token: { $in: uniqueTokens } } } }
+  );
+  await User.updateMany({ expoPushToken: { $in: uniqueTokens } }, { $unset: { expoPushToken: '' } });
+  await Session.updateMany({ pushToken: { $in: uniqueTokens } }, { $unset: { pushToken: '' } });
+  console.log(`🧹 Removed ${uniqueTokens.length} unregistered push token(s)`);
+}
 
 /**
- * Send push notification to a single device
+ * Store the tickets for a sent chunk so the receipt job can check delivery later.
+ * Tickets line up with the chunk's messages by index.
+ */
+async function recordPushTickets(messages: ExpoPushMessage[], tickets: ExpoPushTicket[]): Promise<void> {
+  try {
+    const records = tickets.map((ticket, index) => {
+      const token = messages[index].to as string;
+      if (ticket.status === 'ok') {
+        return { receiptId: ticket.id, token, status: 'pending' };
+      }
+      return { token, status: 'error', error: ticket.details?.error, message: ticket.message };
+    });
+    await PushTicket.insertMany(records);
+
+    const deadTokens = records
+      .filter(record => record.status === 'error' && record.error === 'DeviceNotRegistered')
+      .map(record => record.token);
+    await pruneInvalidPushTokens(deadTokens);
+  } catch (error) {
+    console.error('❌ Error recording push tickets:', error);
+  }
+}
+
+/**
+ * Send push notification to one user's devices
  */
 export async function sendPushNotification(
-  expoPushToken: string,
+  expoPushTokens: string | string[],
   title: string,
   body: string,
   data?: any,
   categoryId?: string
 ): Promise<void> {
   try {
-    console.log(`🔔 sendPushNotification called with token: ${expoPushToken.substring(0, 20)}...`);
+    const tokens = Array.isArray(expoPushTokens) ? expoPushTokens : [expoPushTokens];
+    console.log(`🔔 sendPushNotification called with ${tokens.length} token(s)`);
     
-    // Check that the token is valid
-    if (!Expo.isExpoPushToken(expoPushToken)) {
-      console.error(`❌ Invalid Expo push token: ${expoPushToken}`);
+    // Check that the tokens are valid
+    const validTokens = tokens.filter(token => {
+      if (!Expo.isExpoPushToken(token)) {
+        console.error(`❌ Invalid Expo push token: ${token}`);
+        return false;
+      }
+      return true;
+    });
+    if (validTokens.length === 0) {
       return;
     }
 
-    console.log(`✅ Token is valid, creating notification message...`);
+    console.log(`✅ ${validTokens.length} valid token(s), creating notification messages...`);
 
     // Determine category based on notification type
     // Handle both 'group_message' (mobile app) and 'groupMessage' (web portal) formats
     const isGroupMessage = data?.type === 'group_message' || data?.type === 'groupMessage';
     const category = categoryId || (isGroupMessage ? 'GROUP_MESSAGE' : 'MESSAGE');
 
-    // Create the message
-    const message: ExpoPushMessage = {
-      to: expoPushToken,
+    // Create one message per device
+    const messages: ExpoPushMessage[] = validTokens.map(token => ({
+      to: token,
       sound: 'default',
       title,
       body,
@@ -40,12 +191,20 @@ export async function sendPushNotification(
       channelId: 'default', // Android channel (must match channel created in app)
       badge: 1, // Set badge count
       categoryId: category, // Enable reply actions
-    };
+    }));
 
     console.log(`📨 Notification message created:`, { title, body: body.substring(0, 50) + '...' });
 
+    // Silence or hold pushes for devices in quiet hours
+    const deliverable = await applyQuietHours(messages);
+    if (deliverable.length === 0) {
+      console.log('🌙 All recipients are in quiet hours, nothing to send now');
+      return;
+    }
+
     // Send the notification
-    const chunks = expo.chunkPushNotifications([message]);
+    const client = getPushClient();
+    const chunks = client.chunkPushNotifications(deliverable);
     console.log(`📦 Created ${chunks.length} chunk(s) for sending`);
     
     const tickets = [];
@@ -53,8 +212,9 @@ export async function sendPushNotification(
     for (const chunk of chunks) {
       try {
         console.log(`📤 Sending chunk to Expo servers...`);
-        const ticketChunk = await expo.sendPushNotificationsAsync(chunk);
+        const ticketChunk = await client.sendPushNotificationsAsync(chunk);
         tickets.push(...ticketChunk);
+        await recordPushTickets(chunk, ticketChunk);
         console.log(`✅ Chunk sent, received ${ticketChunk.length} ticket(s)`);
       } catch (error) {
         console.error('❌ Error sending push notification chunk:', error);
@@ -117,14 +277,22 @@ export async function sendPushNotifications(
       channelId: 'default',
     }));
 
+    // Silence or hold pushes for devices in quiet hours
+    const deliverable = await applyQuietHours(messages);
+    if (deliverable.length === 0) {
+      return;
+    }
+
     // Send notifications in chunks
-    const chunks = expo.chunkPushNotifications(messages);
+    const client = getPushClient();
+    const chunks = client.chunkPushNotifications(deliverable);
     const tickets = [];
 
     for (const chunk of chunks) {
       try {
-        const ticketChunk = await expo.sendPushNotificationsAsync(chunk);
+        const ticketChunk = await client.sendPushNotificationsAsync(chunk);
         tickets.push(...ticketChunk);
+        await recordPushTickets(chunk, ticketChunk);
       } catch (error) {
         console.error('Error sending push notification chunk:', error);
       }
@@ -0,0 +1,125 @@
+import { PushTicket } from '../models/PushTicket';
+import { getPushClient, pruneInvalidPushTokens } from './pushNotifications';
+
+// Expo recommends waiting before asking for receipts; they're ready within ~15 minutes
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+
+// Receipts are only kept by Expo for about a day
+const RECEIPT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Tickets checked per run; the rest wait for the next one
+const MAX_TICKETS_PER_RUN = 5000;
+
+let receiptJob: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Fetch receipts for pending tickets in batches, record each outcome and
+ * remove tokens Expo reports as DeviceNotRegistered.
+ */
+export async function processPushReceipts(): Promise<{ checked: number; errors: number; pruned: number }> {
+  const now = Date.now();
+
+  // Past Expo's retention there is no receipt left to fetch
+  await PushTicket.updateMany(
+    { status: 'pending', createdAt: { $lt: new Date(now - RECEIPT_MAX_AGE_MS) } },
+    { $set: { status: 'unknown', receiptCheckedAt: new Date() } }
+  );
+
+  const tickets = await PushTicket.find({
+    status: 'pending',
+    receiptId: { $exists: true },
+    createdAt: { $lte: new Date(now - RECEIPT_DELAY_MS) },
+  })
+    .sort({ createdAt: 1 })
+    .limit(MAX_TICKETS_PER_RUN)
+    .select('receiptId token')
+    .lean<Array<{ receiptId: string; token: string }>>();
+
+  const tokenByReceipt = new Map(tickets.map(ticket => [ticket.receiptId, ticket.token]));
+  const client = getPushClient();
+  const deadTokens: string[] = [];
+  let checked = 0;
+  let errors = 0;
+
+  for (const receiptIds of client.chunkPushNotificationReceiptIds(Array.from(tokenByReceipt.keys()))) {
+    try {
+      const receipts = await client.getPushNotificationReceiptsAsync(receiptIds);
+      const checkedAt = new Date();
+
+      const updates = Object.entries(receipts).map(([receiptId, receipt]) => {
+        checked++;
+        if (receipt.status === 'ok') {
+          return {
+            updateOne: {
+              filter: { receiptId },
+              update: { $set: { status: 'ok', receiptCheckedAt: checkedAt } },
+            },
+          };
+        }
+
+        errors++;
+        if (receipt.details?.error === 'DeviceNotRegistered') {
+          deadTokens.push(tokenByReceipt.get(receiptId)!);
+        }
+        return {
+          updateOne: {
+            filter: { receiptId },
+            update: {
+              $set: {
+                status: 'error',
+                error: receipt.details?.error,
+                message: receipt.message,
+                receiptCheckedAt: checkedAt,
+              },
+            },
+          },
+        };
+      });
+
+      if (updates.length > 0) {
+        await PushTicket.bulkWrite(updates);
+      }
+    } catch (error) {
+      // Leave the batch pending and try again on the next run
+      console.error('❌ Error fetching push receipts:', error);
+    }
+  }
+
+  await pruneInvalidPushTokens(deadTokens);
+
+  if (checked > 0) {
+    console.log(`🧾 Checked ${checked} push receipt(s): ${errors} error(s), ${deadTokens.length} dead token(s)`);
+  }
+
+  return { checked, errors, pruned: new Set(deadTokens).size };
+}
+
+/**
+ * Check push receipts periodically (PUSH_RECEIPT_INTERVAL_MINUTES, default 15).
+ */
+export function startPushReceiptJob(): void {
+  if (receiptJob) return;
+
+  const intervalMinutes = Number(process.env.PUSH_RECEIPT_INTERVAL_MINUTES) || 15;
+  receiptJob = setInterval(async () => {
+    // Skip a tick if the previous run is still going
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+      await processPushReceipts();
+    } catch (error) {
+      console.error('❌ Push receipt job failed:', error);
+    } finally {
+      isProcessing = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  receiptJob.unref();
+}
+
+export function stopPushReceiptJob(): void {
+  if (receiptJob) {
+    clearInterval(receiptJob);
+    receiptJob = null;
+  }
+}
@@ -0,0 +1,220 @@
+import { ExpoPushMessage } from 'expo-server-sdk';
+import { User, IQuietHours } from '../models/User';
+import { HeldNotification } from '../models/HeldNotification';
+import { getPushTokens, sendPushNotification } from './pushNotifications';
+
+// Android channel the app creates with low importance: no sound, no heads-up banner
+const QUIET_CHANNEL_ID = 'quiet';
+
+// Used for users who haven't told us their timezone yet
+const DEFAULT_TIMEZONE = 'UTC';
+
+// Chats named in a summary before it switches to "and N more"
+const SUMMARY_MAX_SOURCES = 3;
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+let summaryJob: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+// Settings as sent to the app, with defaults for users who never saved any
+export function formatQuietHours(quietHours?: Partial<IQuietHours> | null): IQuietHours {
+  return {
+    enabled: !!quietHours?.enabled,
+    start: quietHours?.start || '22:00',
+    end: quietHours?.end || '07:00',
+    delivery: quietHours?.delivery || 'silent',
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeOfDay(value: string): boolean {
+  return TIME_OF_DAY_PATTERN.test(value);
+}
+
+// "HH:mm" to minutes after midnight
+const toMinutes = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes after midnight right now on the user's wall clock
+const getLocalMinutes = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0);
+  return hour * 60 + minute;
+};
+
+/**
+ * Whether the user's quiet hours are on at the given time. The window is
+ * start-inclusive and end-exclusive, and wraps past midnight when start > end.
+ * Expects `timezone` and `quiet_hours` to be selected.
+ */
+export function isInQuietHours(user: any, date: Date = new Date()): boolean {
+  const quietHours: IQuietHours | undefined = user?.quiet_hours;
+  if (!quietHours?.enabled || !isValidTimeOfDay(quietHours.start) || !isValidTimeOfDay(quietHours.end)) {
+    return false;
+  }
+
+  const timeZone = user.timezone && isValidTimeZone(user.timezone) ? user.timezone : DEFAULT_TIMEZONE;
+  const now = getLocalMinutes(date, timeZone);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) return false;
+  if (start < end) return now >= start && now < end;
+  return now >= start || now < end;
+}
+
+/**
+ * Apply each recipient's quiet hours to outgoing pushes. Devices of users in
+ * quiet hours get a silent push, or nothing if they asked for a summary, in
+ * which case one copy per user is held until the window ends. Returns the
+ * messages to send now; on lookup errors everything is sent as is.
+ */
+export async function applyQuietHours(messages: ExpoPushMessage[]): Promise<ExpoPushMessage[]> {
+  try {
+    const tokens = messages.map(message => message.to as string);
+    const owners = await User.find({
+      'quiet_hours.enabled': true,
+      $or: [{ 'pushTokens.token': { $in: tokens } }, { expoPushToken: { $in: tokens } }],
+    }).select('timezone quiet_hours pushTokens expoPushToken');
+    if (owners.length === 0) return messages;
+
+    const now = new Date();
+    const quietOwnerByToken = new Map<string, any>();
+    owners.forEach((owner: any) => {
+      if (!isInQuietHours(owner, now)) return;
+      getPushTokens(owner).forEach(token => quietOwnerByToken.set(token, owner));
+    });
+    if (quietOwnerByToken.size === 0) return messages;
+
+    const heldByUser = new Map<string, ExpoPushMessage>();
+    const deliverable: ExpoPushMessage[] = [];
+    messages.forEach(message => {
+      const owner = quietOwnerByToken.get(message.to as string);
+      if (!owner) {
+        deliverable.push(message);
+      } else if (owner.quiet_hours.delivery === 'summary') {
+        heldByUser.set(owner._id.toString(), message);
+      } else {
+        deliverable.push({
+          ...message,
+          sound: null,
+          priority: 'normal',
+          channelId: QUIET_CHANNEL_ID,
+          interruptionLevel: 'passive',
+        });
+      }
+    });
+
+    if (heldByUser.size > 0) {
+      await HeldNotification.insertMany(
+        Array.from(heldByUser.entries()).map(([userId, message]) => ({
+          user: userId,
+          title: message.title || 'Notification',
+          body: message.body || '',
+          data: message.data,
+        }))
+      );
+      console.log(`🌙 Held ${heldByUser.size} notification(s) for quiet hours`);
+    }
+
+    return deliverable;
+  } catch (error) {
+    console.error('❌ Error applying quiet hours:', error);
+    return messages;
+  }
+}
+
+// e.g. "Alice (3), Bob in Volunteers and 2 more"
+const buildSummaryBody = (held: any[]): string => {
+  const counts = new Map<string, number>();
+  held.forEach(notification => {
+    counts.set(notification.title, (counts.get(notification.title) || 0) + 1);
+  });
+
+  const sources = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([title, count]) => (count > 1 ? `${title} (${count})` : title));
+  const named = sources.slice(0, SUMMARY_MAX_SOURCES).join(', ');
+  const remaining = sources.length - SUMMARY_MAX_SOURCES;
+  return remaining > 0 ? `${named} and ${remaining} more` : named;
+};
+
+/**
+ * Send one summary to each user whose quiet hours have ended (or who turned
+ * them off) and who has held notifications waiting.
+ */
+export async function sendQuietHoursSummaries(): Promise<number> {
+  const userIds = await HeldNotification.distinct('user');
+  if (userIds.length === 0) return 0;
+
+  const users = await User.find({ _id: { $in: userIds } }).select('timezone quiet_hours pushTokens expoPushToken');
+  const now = new Date();
+  let sent = 0;
+
+  for (const user of users) {
+    if (isInQuietHours(user, now)) continue;
+
+    const held = await HeldNotification.find({ user: user._id }).sort({ createdAt: 1 });
+    if (held.length === 0) continue;
+    // Only remove what is summarized; anything held meanwhile waits for the next run
+    await HeldNotification.deleteMany({ _id: { $in: held.map((notification: any) => notification._id) } });
+
+    const tokens = getPushTokens(user);
+    if (tokens.length === 0) continue;
+
+    const title = held.length === 1 ? '1 notification while you were away' : `${held.length} notifications while you were away`;
+    await sendPushNotification(tokens, title, buildSummaryBody(held), {
+      type: 'quiet_hours_summary',
+      count: held.length,
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Look for ended quiet hours periodically (QUIET_HOURS_SUMMARY_INTERVAL_MINUTES, default 5).
+ */
+export function startQuietHoursJob(): void {
+  if (summaryJob) return;
+
+  const intervalMinutes = Number(process.env.QUIET_HOURS_SUMMARY_INTERVAL_MINUTES) || 5;
+  summaryJob = setInterval(async () => {
+    // Skip a tick if the previous run is still going
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+      await sendQuietHoursSummaries();
+    } catch (error) {
+      console.error('❌ Quiet hours summary job failed:', error);
+    } finally {
+      isProcessing = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  summaryJob.unref();
+}
+
+export function stopQuietHoursJob(): void {
+  if (summaryJob) {
+    clearInterval(summaryJob);
+    summaryJob = null;
+  }
+}
@@ -0,0 +1,91 @@
+import { Types } from 'mongoose';
+import { Message } from '../models/Message';
+import { emitToUser } from './socket';
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read';
+
+/**
+ * Delivery state of a direct message: sent when stored, delivered once it
+ * reached one of the receiver's devices, read once the receiver opened the chat
+ */
+export function getDeliveryStatus(message: any): DeliveryStatus {
+  if (message.isRead || message.readAt) return 'read';
+  if (message.deliveredAt) return 'delivered';
+  return 'sent';
+}
+
+/**
+ * Mark unread direct messages to a user as delivered (optionally only those
+ * from one sender) and let each sender know.
+ */
+export async function markDirectMessagesDelivered(
+  receiverId: string | Types.ObjectId,
+  senderId?: string | Types.ObjectId
+): Promise<void> {
+  const receiverIdObj = new Types.ObjectId(receiverId);
+  const filter: any = {
+    receiver: receiverIdObj,
+    isRead: false,
+    deliveredAt: { $exists: false },
+  };
+  if (senderId) {
+    filter.sender = new Types.ObjectId(senderId);
+  }
+
+  const senderIds: Types.ObjectId[] = await Message.distinct('sender', filter);
+  if (senderIds.length === 0) return;
+
+  const deliveredAt = new Date();
+  await Message.updateMany(filter, { $set: { deliveredAt } });
+
+  senderIds.forEach(id => {
+    emitToUser(id, 'message:delivered', {
+      conversationId: receiverIdObj.toString(),
+      deliveredAt,
+    });
+  });
+}
+
+/**
+ * Mark every unread direct message from one user to the reader as read.
+ * Single code path for opening a chat and the explicit mark-as-read route,
+ * so `isRead`, `readAt` and `readBy` always agree.
+ */
+export async function markDirectMessagesRead(
+  readerId: string | Types.ObjectId,
+  otherUserId: string | Types.ObjectId
+): Promise<number> {
+  const readerIdObj = new Types.ObjectId(readerId);
+  const otherUserIdObj = new Types.ObjectId(otherUserId);
+
+  // Read implies delivered
+  await markDirectMessagesDelivered(readerIdObj, otherUserIdObj);
+
+  const readAt = new Date();
+  const result = await Message.updateMany(
+    {
+      sender: otherUserIdObj,
+      receiver: readerIdObj,
+      isRead: false,
+    },
+    {
+      $set: { isRead: true, readAt },
+      $push: {
+        readBy: {
+          user: readerIdObj,
+          readAt,
+        },
+      },
+    }
+  );
+
+  if (result.modifiedCount > 0) {
+    emitToUser(otherUserIdObj, 'message:read', {
+      conversationId: readerIdObj.toString(),
+      readerId: readerIdObj.toString(),
+      readAt,
+    });
+  }
+
+  return result.modifiedCount;
+}
@@ -0,0 +1,58 @@
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface SearchSnippet {
+  snippet: string;
+  highlights: SearchHighlight[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Words to highlight for a search query. Negated terms ("-word") are skipped
+ * and quoted phrases are split into their words.
+ */
+export function getSearchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter(term => term && !term.startsWith('-'))
+    .map(term => term.replace(/["]/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Cut a short snippet around the first matching term and return the
+ * positions of every term occurrence within it.
+ *
+ * MongoDB text search matches on word stems, so terms are matched as word
+ * prefixes ("volunteer" highlights "volunteering").
+ */
+export function buildSearchSnippet(content: string, terms: string[]): SearchSnippet {
+  if (terms.length === 0) {
+    return { snippet: content.substring(0, SNIPPET_CONTEXT * 2), highlights: [] };
+  }
+
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  const firstMatch = pattern.exec(content);
+  pattern.lastIndex = 0;
+
+  const matchIndex = firstMatch ? firstMatch.index : 0;
+  const start = Math.max(0, matchIndex - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, matchIndex + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const body = content.substring(start, end);
+
+  const highlights: SearchHighlight[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    highlights.push({ start: prefix.length + match.index, length: match[0].length });
+  }
+
+  return { snippet: prefix + body + suffix, highlights };
+}
@@ -0,0 +1,78 @@
+import { Types } from 'mongoose';
+import { Session } from '../models/Session';
+import { RefreshToken } from '../models/RefreshToken';
+import { disconnectSession } from './socket';
+import { removePushTokens } from './pushNotifications';
+
+export interface DeviceInfo {
+  deviceId?: string;
+  deviceName?: string;
+  platform?: string;
+  userAgent?: string;
+}
+
+/**
+ * Start a session for a sign-in. Sessions are keyed per device, so an older
+ * session from the same device is ended first.
+ */
+export async function createSession(userId: string | Types.ObjectId, device: DeviceInfo) {
+  if (device.deviceId) {
+    const previous = await Session.find({
+      user: userId,
+      deviceId: device.deviceId,
+      revokedAt: { $exists: false },
+    }).select('_id');
+    await Promise.all(previous.map((session: any) => revokeSession(session._id)));
+  }
+
+  return Session.create({
+    user: userId,
+    ...device,
+    lastUsedAt: new Date(),
+  });
+}
+
+/**
+ * End a session: its refresh tokens stop working, access tokens carrying it
+ * are rejected by `authenticate`, and its sockets are dropped.
+ * Returns false if the session was already revoked.
+ */
+export async function revokeSession(sessionId: string | Types.ObjectId): Promise<boolean> {
+  const now = new Date();
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: now } }
+  );
+  if (!session) return false;
+
+  await RefreshToken.updateMany(
+    { session: session._id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: now } }
+  );
+
+  // Stop sending this device notifications
+  if (session.pushToken || session.deviceId) {
+    await removePushTokens(session.user, { token: session.pushToken, deviceId: session.deviceId });
+  }
+
+  disconnectSession(session._id);
+  return true;
+}
+
+/**
+ * End every session of a user (sign out everywhere, password reset).
+ */
+export async function revokeUserSessions(userId: string | Types.ObjectId): Promise<number> {
+  const sessions = await Session.find({ user: userId, revokedAt: { $exists: false } }).select('_id');
+  const results = await Promise.all(sessions.map((session: any) => revokeSession(session._id)));
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Whether an access token's session is still active.
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  if (!Types.ObjectId.isValid(sessionId)) return false;
+  const session = await Session.findById(sessionId).select('revokedAt').lean<{ revokedAt?: Date }>();
+  return !!session && !session.revokedAt;
+}
@@ -0,0 +1,176 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { Types } from 'mongoose';
+import { resolveAuthUser, AuthUser } from '../middleware/auth';
+import { Group } from '../models/Group';
+import { markOnline, markOffline } from './presence';
+import { markDirectMessagesDelivered } from './receipts';
+import { canMessageUser } from './conversations';
+
+let io: Server | null = null;
+
+// Every authenticated socket joins a personal room so we can target users
+// regardless of how many devices they have connected.
+const userRoom = (userId: string) => `user:${userId}`;
+
+// Sockets of one signed-in device, so revoking a session can drop them
+const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+export interface AuthSocket extends Socket {
+  data: {
+    user: AuthUser;
+  };
+}
+
+// Target of a typing signal: the other participant of a direct chat, or a group
+interface TypingTarget {
+  receiverId?: string;
+  groupId?: string;
+}
+
+/**
+ * Relay "typing started/stopped" to the other side of a chat.
+ * Nothing is stored; clients expire the indicator themselves if no update arrives.
+ */
+function registerTypingHandlers(socket: AuthSocket) {
+  const { user } = socket.data;
+
+  const relayTyping = async (target: TypingTarget | undefined, isTyping: boolean) => {
+    try {
+      if (target?.groupId && Types.ObjectId.isValid(target.groupId)) {
+        const group = await Group.findById(target.groupId).select('members').lean() as any;
+        const memberIds: string[] = (group?.members || []).map((id: Types.ObjectId) => id.toString());
+        if (!memberIds.includes(user.id)) return;
+
+        socket.to(memberIds.filter(id => id !== user.id).map(userRoom)).emit('typing', {
+          groupId: target.groupId,
+          userId: user.id,
+          name: user.name,
+          isTyping,
+        });
+      } else if (target?.receiverId && Types.ObjectId.isValid(target.receiverId)) {
+        // Same rule as sending: no typing into a conversation the user couldn't write in
+        if (!(await canMessageUser(user, target.receiverId))) return;
+
+        // The receiver's chat with this user is keyed by the typer's id
+        socket.to(userRoom(target.receiverId)).emit('typing', {
+          conversationId: user.id,
+          userId: user.id,
+          name: user.name,
+          isTyping,
+        });
+      }
+    } catch (error) {
+      console.error('Typing relay error:', error);
+    }
+  };
+
+  socket.on('typing:start', (target: TypingTarget) => relayTyping(target, true));
+  socket.on('typing:stop', (target: TypingTarget) => relayTyping(target, false));
+}
+
+/**
+ * Attach Socket.IO to the HTTP server.
+ * Clients authenticate with the same JWT used for REST calls, passed as `auth.token`.
+ */
+export function initSocket(server: HttpServer): Server {
+  io = new Server(server, {
+    cors: {
+      origin: '*', // Allow all origins in development
+    },
+  });
+
+  io.use(async (socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+      if (!token) {
+        return next(new Error('No token provided'));
+      }
+
+      const user = await resolveAuthUser(token);
+      if (!user) {
+        return next(new Error('User not found'));
+      }
+
+      socket.data.user = user;
+      next();
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        return next(new Error('Token expired'));
+      }
+      if (error.name === 'TokenRevokedError') {
+        return next(new Error('Session ended'));
+      }
+      next(new Error('Invalid token'));
+    }
+  });
+
+  io.on('connection', (socket: Socket) => {
+    const { user } = (socket as AuthSocket).data;
+    socket.join(userRoom(user.id));
+    // Every connection belongs to a device session, so revoking it disconnects the socket
+    socket.join(sessionRoom(user.sessionId));
+    console.log(`🔌 Socket connected for user: ${user.name || user.email}`);
+
+    markOnline(user.id);
+    registerTypingHandlers(socket as AuthSocket);
+
+    // Anything sent while this user was offline has now reached a device
+    markDirectMessagesDelivered(user.id).catch(error => {
+      console.error('Failed to mark messages delivered:', error);
+    });
+
+    socket.on('disconnect', () => {
+      markOffline(user.id);
+      console.log(`🔌 Socket disconnected for user: ${user.name || user.email}`);
+    });
+  });
+
+  return io;
+}
+
+export function getIO(): Server | null {
+  return io;
+}
+
+/**
+ * Emit an event to every connected device of a single user
+ */
+export function emitToUser(
+  userId: string | Types.ObjectId,
+  event: string,
+  payload: any
+): void {
+  if (!io) return;
+  io.to(userRoom(userId.toString())).emit(event, payload);
+}
+
+/**
+ * Drop every socket of a user, e.g. after their password changed.
+ * Clients reconnect with their stored token, which is then rejected.
+ */
+export function disconnectUser(userId: string | Types.ObjectId): void {
+  if (!io) return;
+  io.in(userRoom(userId.toString())).disconnectSockets(true);
+}
+
+/**
+ * Drop the sockets of one device session after it was revoked
+ */
+export function disconnectSession(sessionId: string | Types.ObjectId): void {
+  if (!io) return;
+  io.in(sessionRoom(sessionId.toString())).disconnectSockets(true);
+}
+
+/**
+ * Emit an event to every connected device of several users (e.g. group members)
+ */
+export function emitToUsers(
+  userIds: Array<string | Types.ObjectId>,
+  event: string,
+  payload: any
+): void {
+  if (!io || userIds.length === 0) return;
+  const rooms = Array.from(new Set(userIds.map(id => userRoom(id.toString()))));
+  io.to(rooms).emit(event, payload);
+}
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { RefreshToken } from '../models/RefreshToken';
+import { Session } from '../models/Session';
+import { revokeSession } from './sessions';
+
+// Access tokens are short-lived; clients renew them with a refresh token
+const ACCESS_TOKEN_TTL_MINUTES = Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15;
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export type RotateRefreshTokenResult =
+  | { userId: string; sessionId: string; refreshToken: string }
+  | { error: 'invalid' | 'expired' | 'reused' };
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export function signAccessToken(
+  user: { _id: Types.ObjectId | string; email: string },
+  sessionId: Types.ObjectId | string
+): string {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not set');
+  }
+
+  return jwt.sign(
+    { userId: user._id.toString(), email: user.email, sid: sessionId.toString() },
+    process.env.JWT_SECRET,
+    { expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m` }
+  );
+}
+
+/**
+ * Store a new refresh token for a session and return its plain value.
+ */
+export async function issueRefreshToken(
+  userId: string | Types.ObjectId,
+  sessionId: string | Types.ObjectId
+): Promise<{ token: string; id: Types.ObjectId }> {
+  const token = crypto.randomBytes(48).toString('base64url');
+  const record = await RefreshToken.create({
+    user: userId,
+    session: sessionId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+  return { token, id: record._id };
+}
+
+/**
+ * Exchange a refresh token for a new one in the same session. Each token works
+ * once: presenting an already rotated token means it leaked, so the whole
+ * session is revoked and the device has to sign in again.
+ */
+export async function rotateRefreshToken(token: string): Promise<RotateRefreshTokenResult> {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+
+  // Claim the token atomically so two concurrent refreshes can't both succeed
+  const record = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false } },
+    { $set: { revokedAt: now } }
+  );
+
+  if (!record) {
+    const reused = await RefreshToken.findOne({ tokenHash });
+    if (!reused) return { error: 'invalid' };
+
+    console.warn('Refresh token reuse detected for user:', reused.user.toString());
+    await revokeSession(reused.session);
+    return { error: 'reused' };
+  }
+
+  if (record.expiresAt.getTime() <= now.getTime()) {
+    return { error: 'expired' };
+  }
+
+  const session = await Session.findOneAndUpdate(
+    { _id: record.session, revokedAt: { $exists: false } },
+    { $set: { lastUsedAt: now } }
+  );
+  if (!session) return { error: 'invalid' };
+
+  const next = await issueRefreshToken(record.user, record.session);
+  await RefreshToken.updateOne({ _id: record._id }, { $set: { replacedBy: next.id } });
+
+  return {
+    userId: record.user.toString(),
+    sessionId: record.session.toString(),
+    refreshToken: next.token,
+  };
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { VerificationCode, VerificationPurpose } from '../models/VerificationCode';
+
+// How long a code stays valid
+export const VERIFICATION_CODE_TTL_MINUTES = 15;
+
+// Wrong guesses allowed before a code is burned
+const MAX_CODE_ATTEMPTS = 5;
+
+// Minimum time between two codes for the same user and purpose
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+// Codes per user and purpose allowed in a rolling hour
+const MAX_CODES_PER_HOUR = 5;
+
+export type ConsumeCodeResult = 'ok' | 'invalid' | 'expired' | 'too_many_attempts';
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+/**
+ * Seconds until a new code may be issued, or 0 if one can be sent now.
+ */
+export async function getResendWaitSeconds(
+  userId: string | Types.ObjectId,
+  purpose: VerificationPurpose
+): Promise<number> {
+  const latest = await VerificationCode.findOne({ user: userId, purpose })
+    .sort({ createdAt: -1 })
+    .select('createdAt')
+    .lean<{ createdAt: Date }>();
+  if (!latest) return 0;
+
+  const waitMs = latest.createdAt.getTime() + RESEND_INTERVAL_MS - Date.now();
+  return waitMs > 0 ? Math.ceil(waitMs / 1000) : 0;
+}
+
+/**
+ * Whether another code may be issued now: respects the resend interval and an
+ * hourly cap, so a single address can't be flooded with mail.
+ */
+export async function isCodeRequestAllowed(
+  userId: string | Types.ObjectId,
+  purpose: VerificationPurpose
+): Promise<boolean> {
+  if ((await getResendWaitSeconds(userId, purpose)) > 0) return false;
+
+  const recentCount = await VerificationCode.countDocuments({
+    user: userId,
+    purpose,
+    createdAt: { $gt: new Date(Date.now() - 60 * 60 * 1000) },
+  });
+  return recentCount < MAX_CODES_PER_HOUR;
+}
+
+/**
+ * Create a new 6-digit code, invalidating any earlier unused ones so only the
+ * most recently sent code works. Returns the plain code for the mail.
+ */
+export async function issueVerificationCode(
+  userId: string | Types.ObjectId,
+  purpose: VerificationPurpose
+): Promise<string> {
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  await VerificationCode.updateMany(
+    { user: userId, purpose, usedAt: { $exists: false } },
+    { $set: { usedAt: new Date() } }
+  );
+  await VerificationCode.create({
+    user: userId,
+    purpose,
+    codeHash: hashCode(code),
+    expiresAt: new Date(Date.now() + VERIFICATION_CODE_TTL_MINUTES * 60 * 1000),
+  });
+
+  return code;
+}
+
+/**
+ * Check a code against the user's latest unused one and mark it used on success.
+ * Each code can be used once and checked at most MAX_CODE_ATTEMPTS times.
+ */
+export async function consumeVerificationCode(
+  userId: string | Types.ObjectId,
+  purpose: VerificationPurpose,
+  code: string
+): Promise<ConsumeCodeResult> {
+  const record = await VerificationCode.findOne({
+    user: userId,
+    purpose,
+    usedAt: { $exists: false },
+  }).sort({ createdAt: -1 });
+
+  if (!record) return 'invalid';
+  if (record.expiresAt.getTime() <= Date.now()) return 'expired';
+
+  // Reserve the attempt before comparing, so concurrent guesses can't all read the same count
+  const attempt = await VerificationCode.findOneAndUpdate(
+    { _id: record._id, attempts: { $lt: MAX_CODE_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!attempt) return 'too_many_attempts';
+
+  const expected = Buffer.from(attempt.codeHash, 'hex');
+  const actual = Buffer.from(hashCode(code.trim()), 'hex');
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    return attempt.attempts >= MAX_CODE_ATTEMPTS ? 'too_many_attempts' : 'invalid';
+  }
+
+  // Guard against the same code being used twice by concurrent requests
+  const result = await VerificationCode.updateOne(
+    { _id: record._id, usedAt: { $exists: false } },
+    { $set: { usedAt: new Date() } }
+  );
+  return result.modifiedCount > 0 ? 'ok' : 'invalid';
+}
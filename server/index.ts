@@ -2,6 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
+import http from 'http';
 import connectToDatabase from './config/database';
 // Import models to ensure they're registered before routes use them
 import './models/User';
@@ -12,6 +13,9 @@ import authRoutes from './routes/auth';
 import messageRoutes from './routes/messages';
 import userRoutes from './routes/users';
 import notificationRoutes from './routes/notifications';
+import { initSocket } from './helpers/socket';
+import { startPushReceiptJob } from './helpers/pushReceipts';
+import { startQuietHoursJob } from './helpers/quietHours';
 
 // Try multiple paths for .env file (works with ts-node)
 // Check root .env first (where user likely put it), then server directory
@@ -38,6 +42,7 @@ if (!envLoaded) {
 }
 
 const app = express();
+const server = http.createServer(app);
 const PORT = Number(process.env.PORT) || 3001;
 
 // Middleware
@@ -65,6 +70,7 @@ app.get('/api', (req, res) => {
     endpoints: {
       auth: '/api/auth',
       messages: '/api/messages',
+      realtime: '/socket.io',
       health: '/health',
     },
   });
@@ -89,11 +95,21 @@ const startServer = async () => {
   try {
     // Connect to database
     await connectToDatabase();
+
+    // Attach WebSocket server for real-time message delivery
+    initSocket(server);
+
+    // Check push receipts and drop tokens of uninstalled apps
+    startPushReceiptJob();
+
+    // Send summaries of pushes held during quiet hours once they end
+    startQuietHoursJob();
     
     // Start Express server - listen on 0.0.0.0 to allow access from emulator/network
-    app.listen(PORT, '0.0.0.0', () => {
+    server.listen(PORT, '0.0.0.0', () => {
       console.log(`🚀 iLeap Mobile API Server running on port ${PORT}`);
       console.log(`📡 API endpoints available at http://localhost:${PORT}/api`);
+      console.log(`🔌 WebSocket server available at ws://localhost:${PORT}/socket.io`);
       console.log(`📱 Accessible from Android emulator at http://10.0.2.2:${PORT}/api`);
     });
   } catch (error) {
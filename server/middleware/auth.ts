@@ -1,16 +1,74 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/User';
+import { touchLastSeen } from '../helpers/presence';
+import { isSessionActive } from '../helpers/sessions';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  image?: string;
+  // Device session the access token was issued for
+  sessionId: string;
+}
 
 export interface AuthRequest extends Request {
-  user?: {
-    id: string;
+  user?: AuthUser;
+}
+
+/**
+ * Verify a JWT access token and load the user it belongs to.
+ * Shared by the HTTP middleware and the WebSocket handshake.
+ * Returns null when the user no longer exists; throws on invalid tokens,
+ * including tokens not tied to a device session.
+ */
+export const resolveAuthUser = async (token: string): Promise<AuthUser | null> => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not set');
+  }
+
+  const decoded = jwt.verify(token, process.env.JWT_SECRET) as {
+    userId: string;
     email: string;
-    name: string;
-    role: string;
-    image?: string;
+    sid?: string;
+    iat?: number;
   };
-}
+
+  // Tokens from before device sessions can't be signed out, so they must be replaced
+  if (!decoded.sid) {
+    const error = new Error('Token has no session');
+    error.name = 'TokenRevokedError';
+    throw error;
+  }
+
+  // Fetch user from database
+  const user = await User.findById(decoded.userId).select('-password');
+
+  if (!user) {
+    return null;
+  }
+
+  // Changing the password signs out every existing session, and a signed out
+  // device's access token stops working right away rather than when it expires
+  const passwordChanged =
+    user.password_changed_at && (decoded.iat || 0) < Math.floor(user.password_changed_at.getTime() / 1000);
+  if (passwordChanged || !(await isSessionActive(decoded.sid))) {
+    const error = new Error('Token revoked');
+    error.name = 'TokenRevokedError';
+    throw error;
+  }
+
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role || '',
+    image: user.image,
+    sessionId: decoded.sid,
+  };
+};
 
 export const authenticate = async (
   req: AuthRequest,
@@ -19,36 +77,21 @@ export const authenticate = async (
 ) => {
   try {
     const authHeader = req.headers.authorization;
-    
+
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       return res.status(401).json({ error: 'No token provided' });
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET is not set');
-    }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as {
-      userId: string;
-      email: string;
-    };
+    const user = await resolveAuthUser(token);
 
-    // Fetch user from database
-    const user = await User.findById(decoded.userId).select('-password');
-    
     if (!user) {
       return res.status(401).json({ error: 'User not found' });
     }
 
-    req.user = {
-      id: user._id.toString(),
-      email: user.email,
-      name: user.name,
-      role: user.role || '',
-      image: user.image,
-    };
+    req.user = user;
+    touchLastSeen(user.id);
 
     next();
   } catch (error: any) {
@@ -58,8 +101,10 @@ export const authenticate = async (
     if (error.name === 'TokenExpiredError') {
       return res.status(401).json({ error: 'Token expired' });
     }
+    if (error.name === 'TokenRevokedError') {
+      return res.status(401).json({ error: 'Session ended. Please sign in again.' });
+    }
     console.error('Auth error:', error);
     return res.status(500).json({ error: 'Authentication failed' });
   }
 };
-
@@ -0,0 +1,61 @@
+import { Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { Group } from '../models/Group';
+import { AuthRequest } from './auth';
+import { GroupAction, GroupPrincipal, getGroupPrincipals, isGroupActionAllowed } from '../helpers/groupPolicy';
+
+export interface GroupRequest extends AuthRequest {
+  // The group from the `:groupId` route parameter
+  group?: any;
+  groupPrincipals?: Set<GroupPrincipal>;
+}
+
+// Shown when the caller lacks the permission
+const FORBIDDEN_MESSAGES: Record<GroupAction, string> = {
+  view: 'You are not a member of this group',
+  send_message: 'You are not a member of this group',
+  update_group: 'You don\'t have permission to update this group',
+  add_members: 'You don\'t have permission to add members to this group',
+  manage_invites: 'You don\'t have permission to manage invites for this group',
+  remove_members: 'You don\'t have permission to remove members from this group',
+  delete_messages: 'You don\'t have permission to delete messages in this group',
+  manage_admins: 'You don\'t have permission to change the admins of this group',
+  transfer_ownership: 'Only the group owner can transfer ownership',
+  leave_group: 'You are not a member of this group',
+  delete_group: 'You don\'t have permission to delete this group',
+};
+
+/**
+ * Load the `:groupId` group and reject the request unless the authenticated
+ * user may perform `action` on it. Must run after `authenticate`; the group
+ * is left on `req.group` for the route.
+ */
+export const requireGroupPermission = (action: GroupAction) => async (
+  req: GroupRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { groupId } = req.params;
+    if (!Types.ObjectId.isValid(groupId)) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    const group = await Group.findById(groupId);
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    const principals = await getGroupPrincipals(req.user!, group);
+    if (!isGroupActionAllowed(principals, action)) {
+      return res.status(403).json({ error: FORBIDDEN_MESSAGES[action] });
+    }
+
+    req.group = group;
+    req.groupPrincipals = principals;
+    next();
+  } catch (error: any) {
+    console.error('Group permission error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to check group permissions' });
+  }
+};
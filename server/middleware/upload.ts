@@ -1,3 +1,4 @@
+import { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -40,6 +41,37 @@ export const upload = multer({
   },
 });
 
+// Accept a single file field, turning upload errors (bad type, too large) into 400 responses
+export const uploadSingle = (fieldName: string) => (req: Request, res: Response, next: NextFunction) => {
+  upload.single(fieldName)(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({ error: error.message || 'File upload failed' });
+    }
+    next();
+  });
+};
+
+// Delete an uploaded file that ended up not being used
+export const removeUploadedFile = (file: Express.Multer.File) => {
+  fs.unlink(file.path, (error) => {
+    if (error) {
+      console.error('Error removing uploaded file:', error);
+    }
+  });
+};
+
+// Delete the stored file behind a public upload URL; URLs pointing anywhere else are left alone
+export const removeStoredFile = (url?: string) => {
+  if (!url?.includes('/uploads/messages/')) return;
+  // basename keeps the path inside the uploads directory
+  const filename = path.basename(url.split('?')[0]);
+  fs.unlink(path.join(uploadsDir, filename), (error) => {
+    if (error && error.code !== 'ENOENT') {
+      console.error('Error removing stored file:', error);
+    }
+  });
+};
+
 // Helper to get file type from mime type
 export const getFileType = (mimeType: string): 'image' | 'video' => {
   if (mimeType.startsWith('image/')) {
@@ -5,6 +5,8 @@ export interface IGroup {
   description?: string;
   members: Schema.Types.ObjectId[];
   admins: Schema.Types.ObjectId[];
+  // When members added after creation joined, by user ID; the others joined at createdAt
+  memberJoinedAt?: Map<string, Date>;
   createdBy: Schema.Types.ObjectId;
   isOrganizationGroup?: boolean;
   opportunityId?: Schema.Types.ObjectId;
@@ -19,6 +21,7 @@ const groupSchema = new Schema<IGroup>(
     description: { type: String },
     members: [{ type: Schema.Types.ObjectId, ref: 'user' }],
     admins: [{ type: Schema.Types.ObjectId, ref: 'user' }],
+    memberJoinedAt: { type: Map, of: Date, default: {} },
     createdBy: { type: Schema.Types.ObjectId, ref: 'user', required: true },
     isOrganizationGroup: { type: Boolean, default: false },
     opportunityId: { type: Schema.Types.ObjectId },
@@ -0,0 +1,38 @@
+import { Schema, model, models } from 'mongoose';
+
+export interface IGroupInvite {
+  group: Schema.Types.ObjectId;
+  code: string;
+  createdBy: Schema.Types.ObjectId;
+  expiresAt: Date;
+  // Unlimited when unset
+  maxUses?: number;
+  uses: number;
+  // Joining through this invite creates a join request for the admins to review
+  requiresApproval: boolean;
+  revokedAt?: Date;
+  revokedBy?: Schema.Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const groupInviteSchema = new Schema<IGroupInvite>(
+  {
+    group: { type: Schema.Types.ObjectId, ref: 'group', required: true },
+    code: { type: String, required: true, unique: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'user', required: true },
+    expiresAt: { type: Date, required: true },
+    maxUses: { type: Number, min: 1 },
+    uses: { type: Number, default: 0 },
+    requiresApproval: { type: Boolean, default: false },
+    revokedAt: { type: Date },
+    revokedBy: { type: Schema.Types.ObjectId, ref: 'user' },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+groupInviteSchema.index({ group: 1, createdAt: -1 });
+
+export const GroupInvite = models.group_invite || model<IGroupInvite>('group_invite', groupInviteSchema);
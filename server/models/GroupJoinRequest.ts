@@ -0,0 +1,39 @@
+import { Schema, model, models } from 'mongoose';
+
+export type JoinRequestStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface IGroupJoinRequest {
+  group: Schema.Types.ObjectId;
+  user: Schema.Types.ObjectId;
+  // The invite the user followed
+  invite: Schema.Types.ObjectId;
+  status: JoinRequestStatus;
+  reviewedBy?: Schema.Types.ObjectId;
+  reviewedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const groupJoinRequestSchema = new Schema<IGroupJoinRequest>(
+  {
+    group: { type: Schema.Types.ObjectId, ref: 'group', required: true },
+    user: { type: Schema.Types.ObjectId, ref: 'user', required: true },
+    invite: { type: Schema.Types.ObjectId, ref: 'group_invite', required: true },
+    status: { type: String, enum: ['pending', 'accepted', 'rejected'], default: 'pending' },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: 'user' },
+    reviewedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// At most one pending request per user and group
+groupJoinRequestSchema.index(
+  { group: 1, user: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+groupJoinRequestSchema.index({ group: 1, status: 1, createdAt: 1 });
+
+export const GroupJoinRequest =
+  models.group_join_request || model<IGroupJoinRequest>('group_join_request', groupJoinRequestSchema);
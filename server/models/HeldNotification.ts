@@ -0,0 +1,29 @@
+import { Schema, model, models, Types } from 'mongoose';
+
+// A push held back during the user's quiet hours, sent later as part of a summary
+export interface IHeldNotification {
+  user: Types.ObjectId;
+  title: string;
+  body: string;
+  data?: any;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const heldNotificationSchema = new Schema<IHeldNotification>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'user', required: true, index: true },
+    title: { type: String, required: true },
+    body: { type: String, default: '' },
+    data: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Nothing is worth summarizing after a week
+heldNotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const HeldNotification =
+  models.held_notification || model<IHeldNotification>('held_notification', heldNotificationSchema);
@@ -1,10 +1,13 @@
 import { Schema, model, models } from 'mongoose';
 
+export type GroupSystemEventType = 'admin_promoted' | 'admin_demoted' | 'ownership_transferred' | 'member_joined' | 'member_left';
+
 export interface IMessage {
   sender: Schema.Types.ObjectId;
   receiver?: Schema.Types.ObjectId;
   group?: Schema.Types.ObjectId;
   content: string;
+  replyTo?: Schema.Types.ObjectId;
   media?: {
     url: string;
     type: 'image' | 'video';
@@ -13,10 +16,36 @@ export interface IMessage {
     size?: number;
   };
   isRead: boolean;
+  deliveredAt?: Date;
+  readAt?: Date;
   readBy: Array<{
     user: Schema.Types.ObjectId;
     readAt: Date;
   }>;
+  editHistory: Array<{
+    content: string;
+    editedAt: Date;
+  }>;
+  reactions: Array<{
+    user: Schema.Types.ObjectId;
+    emoji: string;
+  }>;
+  // Group messages: members mentioned as "@Name" in the content
+  mentions: Array<{
+    user: Schema.Types.ObjectId;
+    offset: number;
+    length: number;
+  }>;
+  // Group messages recording a change to the group rather than written by the sender
+  systemEvent?: {
+    type: GroupSystemEventType;
+    // Member the change applied to; the sender is who made it
+    target?: Schema.Types.ObjectId;
+  };
+  editedAt?: Date;
+  isDeleted?: boolean;
+  deletedAt?: Date;
+  deletedBy?: Schema.Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -42,7 +71,17 @@ const messageSchema = new Schema<IMessage>(
     },
     content: {
       type: String,
-      required: true,
+      // Media messages may be sent without a caption
+      required: function (this: IMessage) {
+        return !this.media?.url;
+      },
+      default: '',
+    },
+    // Message this one quotes when replying
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'message',
+      required: false,
     },
     media: {
       url: {
@@ -67,6 +106,14 @@ const messageSchema = new Schema<IMessage>(
       default: false,
       index: true,
     },
+    // Direct messages: when the message reached one of the receiver's devices
+    deliveredAt: {
+      type: Date,
+    },
+    // Direct messages: when the receiver read it (group reads are tracked in readBy)
+    readAt: {
+      type: Date,
+    },
     readBy: [{
       user: {
         type: Schema.Types.ObjectId,
@@ -78,6 +125,71 @@ const messageSchema = new Schema<IMessage>(
         default: Date.now,
       },
     }],
+    // Previous versions of the content, oldest first
+    editHistory: [{
+      content: {
+        type: String,
+        required: true,
+      },
+      editedAt: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+    // One entry per user and emoji
+    reactions: [{
+      _id: false,
+      user: {
+        type: Schema.Types.ObjectId,
+        ref: 'user',
+        required: true,
+      },
+      emoji: {
+        type: String,
+        required: true,
+      },
+    }],
+    // Where each "@Name" sits in the content, so clients can highlight it
+    mentions: [{
+      _id: false,
+      user: {
+        type: Schema.Types.ObjectId,
+        ref: 'user',
+        required: true,
+      },
+      offset: {
+        type: Number,
+        required: true,
+      },
+      length: {
+        type: Number,
+        required: true,
+      },
+    }],
+    systemEvent: {
+      type: {
+        type: String,
+        enum: ['admin_promoted', 'admin_demoted', 'ownership_transferred', 'member_joined', 'member_left'],
+      },
+      target: {
+        type: Schema.Types.ObjectId,
+        ref: 'user',
+      },
+    },
+    editedAt: {
+      type: Date,
+    },
+    isDeleted: {
+      type: Boolean,
+      default: false,
+    },
+    deletedAt: {
+      type: Date,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'user',
+    },
   },
   {
     timestamps: true,
@@ -87,6 +199,11 @@ const messageSchema = new Schema<IMessage>(
 messageSchema.index({ sender: 1, receiver: 1 });
 messageSchema.index({ group: 1 });
 messageSchema.index({ 'readBy.user': 1 });
+messageSchema.index({ 'mentions.user': 1 });
+messageSchema.index({ content: 'text' });
+
+// Shown in place of the content of a soft-deleted message
+export const DELETED_MESSAGE_CONTENT = 'This message was deleted';
 
 export const Message = models.message || model<IMessage>('message', messageSchema);
 
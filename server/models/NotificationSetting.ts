@@ -0,0 +1,37 @@
+import { Schema, model, models } from 'mongoose';
+
+// all: every message; mentions: only messages that mention the user; muted: nothing
+export type NotificationMode = 'all' | 'mentions' | 'muted';
+
+export type NotificationTargetType = 'conversation' | 'group';
+
+export interface INotificationSetting {
+  user: Schema.Types.ObjectId;
+  targetType: NotificationTargetType;
+  // The other user for a direct conversation, or the group
+  target: Schema.Types.ObjectId;
+  mode: NotificationMode;
+  // Muted until this time; muted forever when unset
+  mutedUntil?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const notificationSettingSchema = new Schema<INotificationSetting>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'user', required: true },
+    targetType: { type: String, enum: ['conversation', 'group'], required: true },
+    target: { type: Schema.Types.ObjectId, required: true },
+    mode: { type: String, enum: ['all', 'mentions', 'muted'], default: 'all' },
+    mutedUntil: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationSettingSchema.index({ user: 1, targetType: 1, target: 1 }, { unique: true });
+notificationSettingSchema.index({ targetType: 1, target: 1 });
+
+export const NotificationSetting =
+  models.notification_setting || model<INotificationSetting>('notification_setting', notificationSettingSchema);
@@ -0,0 +1,38 @@
+import { Schema, model, models } from 'mongoose';
+
+export type PushTicketStatus = 'pending' | 'ok' | 'error' | 'unknown';
+
+export interface IPushTicket {
+  // Receipt ID from Expo; missing when the send itself was rejected
+  receiptId?: string;
+  token: string;
+  status: PushTicketStatus;
+  // Expo error code, e.g. DeviceNotRegistered
+  error?: string;
+  message?: string;
+  receiptCheckedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const pushTicketSchema = new Schema<IPushTicket>(
+  {
+    receiptId: { type: String },
+    token: { type: String, required: true, index: true },
+    status: { type: String, enum: ['pending', 'ok', 'error', 'unknown'], default: 'pending' },
+    error: { type: String },
+    message: { type: String },
+    receiptCheckedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+pushTicketSchema.index({ status: 1, createdAt: 1 });
+// Receipts are matched back to their ticket by ID; tickets that failed to send have none
+pushTicketSchema.index({ receiptId: 1 }, { sparse: true });
+// Delivery outcomes are kept for a week for diagnostics
+pushTicketSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const PushTicket = models.push_ticket || model<IPushTicket>('push_ticket', pushTicketSchema);
@@ -0,0 +1,35 @@
+import { Schema, model, models } from 'mongoose';
+
+export interface IRefreshToken {
+  user: Schema.Types.ObjectId;
+  // Every token rotated from the same sign-in belongs to one device session
+  session: Schema.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: Schema.Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'user', required: true, index: true },
+    session: { type: Schema.Types.ObjectId, ref: 'session', required: true, index: true },
+    // Only a hash of the token is stored
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    // Set when the token is rotated or its family is revoked
+    revokedAt: { type: Date },
+    replacedBy: { type: Schema.Types.ObjectId, ref: 'refresh_token' },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB clean up expired tokens
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken =
+  models.refresh_token || model<IRefreshToken>('refresh_token', refreshTokenSchema);
@@ -0,0 +1,37 @@
+import { Schema, model, models } from 'mongoose';
+
+export interface ISession {
+  user: Schema.Types.ObjectId;
+  // Stable ID generated by the app on first launch
+  deviceId?: string;
+  deviceName?: string;
+  platform?: string;
+  userAgent?: string;
+  lastUsedAt: Date;
+  pushToken?: string;
+  revokedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'user', required: true },
+    deviceId: { type: String },
+    deviceName: { type: String },
+    platform: { type: String },
+    userAgent: { type: String },
+    // Updated whenever the device refreshes its access token
+    lastUsedAt: { type: Date, default: Date.now },
+    pushToken: { type: String },
+    revokedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ user: 1, revokedAt: 1, lastUsedAt: -1 });
+sessionSchema.index({ user: 1, deviceId: 1 });
+
+export const Session = models.session || model<ISession>('session', sessionSchema);
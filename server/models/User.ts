@@ -1,9 +1,28 @@
 import mongoose, { Schema } from 'mongoose';
 
+export interface IPushToken {
+  token: string;
+  platform?: string;
+  deviceId?: string;
+  lastRegisteredAt: Date;
+}
+
+export type QuietHoursDelivery = 'silent' | 'summary';
+
+export interface IQuietHours {
+  enabled: boolean;
+  // Local times in the user's timezone, "HH:mm"; the window may cross midnight
+  start: string;
+  end: string;
+  // Deliver pushes without sound or banner, or hold them for one summary afterwards
+  delivery: QuietHoursDelivery;
+}
+
 export interface IUser {
   name: string;
   email: string;
   password?: string;
+  password_changed_at?: Date;
   provider?: string;
   role?: string;
   image?: string;
@@ -11,7 +30,13 @@ export interface IUser {
   volunteer_profile?: mongoose.Types.ObjectId;
   organization_profile?: mongoose.Types.ObjectId;
   last_seen?: Date;
+  hide_last_seen?: boolean;
+  // Single token from before pushTokens; moved into the list on the next registration
   expoPushToken?: string;
+  pushTokens?: IPushToken[];
+  // IANA timezone, e.g. "America/New_York"
+  timezone?: string;
+  quiet_hours?: IQuietHours;
   createdAt?: Date; 
   updatedAt?: Date;
 }
@@ -21,6 +46,8 @@ const UserSchema: Schema = new Schema<IUser>(
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     password: { type: String },
+    // Tokens issued before this time are rejected
+    password_changed_at: { type: Date },
     provider: { type: String, default: 'credentials' },
     role: { type: String },
     image: { type: String },
@@ -28,10 +55,32 @@ const UserSchema: Schema = new Schema<IUser>(
     volunteer_profile: { type: Schema.Types.ObjectId, ref: 'volunteer_profile' },
     organization_profile: { type: Schema.Types.ObjectId, ref: 'organization_profile' },
     last_seen: { type: Date, default: Date.now, index: true },
+    // Privacy: hide online status and last seen time from other users
+    hide_last_seen: { type: Boolean, default: false },
     expoPushToken: { type: String },
+    // One entry per device the user receives notifications on
+    pushTokens: [
+      {
+        _id: false,
+        token: { type: String, required: true },
+        platform: { type: String },
+        deviceId: { type: String },
+        lastRegisteredAt: { type: Date, default: Date.now },
+      },
+    ],
+    timezone: { type: String },
+    quiet_hours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: '22:00' },
+      end: { type: String, default: '07:00' },
+      delivery: { type: String, enum: ['silent', 'summary'], default: 'silent' },
+    },
   },
   { timestamps: true }
 );
 
+// Finding the account a device's push token is registered to
+UserSchema.index({ 'pushTokens.token': 1 });
+
 export const User = mongoose.models.user || mongoose.model<IUser>('user', UserSchema);
 
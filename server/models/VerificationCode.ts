@@ -0,0 +1,37 @@
+import { Schema, model, models } from 'mongoose';
+
+export type VerificationPurpose = 'email_verification' | 'password_reset';
+
+export interface IVerificationCode {
+  user: Schema.Types.ObjectId;
+  purpose: VerificationPurpose;
+  codeHash: string;
+  expiresAt: Date;
+  attempts: number;
+  usedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const verificationCodeSchema = new Schema<IVerificationCode>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'user', required: true },
+    purpose: { type: String, enum: ['email_verification', 'password_reset'], required: true },
+    // Only a hash of the code is stored; the code itself is only ever sent by mail
+    codeHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    // Wrong guesses against this code
+    attempts: { type: Number, default: 0 },
+    usedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+verificationCodeSchema.index({ user: 1, purpose: 1, createdAt: -1 });
+// Let MongoDB clean up expired codes
+verificationCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const VerificationCode =
+  models.verification_code || model<IVerificationCode>('verification_code', verificationCodeSchema);
@@ -1,20 +1,291 @@
 import express, { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
 import { User } from '../models/User';
+import { Session } from '../models/Session';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { sendMail } from '../helpers/mailer';
+import { disconnectUser } from '../helpers/socket';
+import { issueRefreshToken, rotateRefreshToken, signAccessToken } from '../helpers/tokens';
+import { createSession, revokeSession, revokeUserSessions } from '../helpers/sessions';
+import { formatQuietHours } from '../helpers/quietHours';
+import {
+  VERIFICATION_CODE_TTL_MINUTES,
+  consumeVerificationCode,
+  isCodeRequestAllowed,
+  issueVerificationCode,
+} from '../helpers/verificationCodes';
 
 const router = express.Router();
 
+const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeEmail = (email: unknown) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+/**
+ * Find the account for a normalized email. Accounts created before emails were
+ * normalized may be stored in mixed case, so fall back to a case-insensitive match.
+ */
+const findUserByEmail = async (email: string) =>
+  (await User.findOne({ email }).populate('organization_profile')) ||
+  User.findOne({ email }).collation({ locale: 'en', strength: 2 }).populate('organization_profile');
+
+// Device details the app sends as headers, capped so they can't bloat the sessions list
+const getDeviceHeader = (req: Request, name: string) => req.get(name)?.substring(0, 100) || undefined;
+
+/**
+ * Tokens and user payload returned by every route that signs a user in.
+ * Each sign-in starts a new session for the device.
+ */
+const buildAuthResponse = async (req: Request, user: any) => {
+  const session = await createSession(user._id, {
+    deviceId: getDeviceHeader(req, 'x-device-id'),
+    deviceName: getDeviceHeader(req, 'x-device-name'),
+    platform: getDeviceHeader(req, 'x-device-platform'),
+    userAgent: getDeviceHeader(req, 'user-agent'),
+  });
+  const token = signAccessToken(user, session._id);
+  const refreshToken = await issueRefreshToken(user._id, session._id);
+
+  return {
+    token,
+    refreshToken: refreshToken.token,
+    user: {
+      id: user._id.toString(),
+      email: user.email,
+      name: user.name,
+      role: user.role || null,
+      image: user.image,
+      organization_profile: user.organization_profile,
+    },
+  };
+};
+
+/**
+ * Issue a fresh verification code and mail it. When PUBLIC_API_URL is set the
+ * mail also has a link that verifies the account without typing the code; the
+ * link is never built from request headers, which callers control.
+ */
+const sendVerificationEmail = async (user: any) => {
+  const code = await issueVerificationCode(user._id, 'email_verification');
+  const baseUrl = process.env.PUBLIC_API_URL?.replace(/\/+$/, '');
+  const link = baseUrl && `${baseUrl}/api/auth/verify?email=${encodeURIComponent(user.email)}&code=${code}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your iLeap account',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your iLeap verification code is ${code}.`,
+      link ? `Enter it in the app, or open this link to verify your email: ${link}` : 'Enter it in the app to verify your email.',
+      '',
+      `The code expires in ${VERIFICATION_CODE_TTL_MINUTES} minutes and can only be used once.`,
+      "If you didn't create an iLeap account, you can ignore this email.",
+    ].join('\n'),
+  });
+};
+
+/**
+ * Check a verification code and mark the account verified.
+ * Returns the verified user, or an error status and message.
+ */
+const verifyEmailCode = async (
+  email: string,
+  code: string
+): Promise<{ user: any } | { status: number; error: string }> => {
+  const user = await findUserByEmail(email);
+  if (!user) {
+    return { status: 400, error: 'Invalid verification code' };
+  }
+  if (user.is_verified) {
+    return { status: 400, error: 'Email is already verified. Please sign in.' };
+  }
+
+  const result = await consumeVerificationCode(user._id, 'email_verification', code);
+  if (result === 'expired') {
+    return { status: 400, error: 'Verification code has expired. Please request a new one.' };
+  }
+  if (result === 'too_many_attempts') {
+    return { status: 429, error: 'Too many incorrect attempts. Please request a new code.' };
+  }
+  if (result !== 'ok') {
+    return { status: 400, error: 'Invalid verification code' };
+  }
+
+  user.is_verified = true;
+  user.last_seen = new Date();
+  await user.save();
+
+  return { user };
+};
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+    if ('error' in result) {
+      const message = result.error === 'expired' ? 'Session expired. Please sign in again.' : 'Invalid refresh token';
+      return res.status(401).json({ error: message });
+    }
+
+    const user = await User.findById(result.userId).select('email');
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    res.json({
+      token: signAccessToken(user, result.sessionId),
+      refreshToken: result.refreshToken,
+    });
+  } catch (error: any) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: error.message || 'Failed to refresh session' });
+  }
+});
+
+// Sign up with email/password; the account stays unverified until the emailed code is confirmed
+router.post('/signup', async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    const password = typeof req.body.password === 'string' ? req.body.password : '';
+    const email = normalizeEmail(req.body.email);
+
+    if (!name || !email || !password) {
+      return res.status(400).json({ error: 'Name, email and password are required' });
+    }
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: 'Please enter a valid email address' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const existingUser = await findUserByEmail(email);
+    if (existingUser) {
+      return res.status(409).json({
+        error: existingUser.is_verified
+          ? 'An account with this email already exists. Please sign in.'
+          : 'An account with this email is waiting for verification.',
+        verificationRequired: !existingUser.is_verified,
+      });
+    }
+
+    const user = await User.create({
+      name,
+      email,
+      password: await bcrypt.hash(password, 10),
+      provider: 'credentials',
+      role: 'volunteer',
+      is_verified: false,
+    });
+
+    await sendVerificationEmail(user);
+
+    res.status(201).json({
+      email: user.email,
+      message: 'Account created. Check your email for a verification code.',
+    });
+  } catch (error: any) {
+    console.error('Sign up error:', error);
+    res.status(500).json({ error: error.message || 'Sign up failed' });
+  }
+});
+
+// Verify an email with the code from the verification mail; signs the user in
+router.post('/verify', async (req: Request, res: Response) => {
+  try {
+    const email = normalizeEmail(req.body.email);
+    const code = typeof req.body.code === 'string' ? req.body.code : '';
+
+    if (!email || !code) {
+      return res.status(400).json({ error: 'Email and verification code are required' });
+    }
+
+    const result = await verifyEmailCode(email, code);
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json(await buildAuthResponse(req, result.user));
+  } catch (error: any) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: error.message || 'Verification failed' });
+  }
+});
+
+// Verification link from the mail, opened in a browser
+router.get('/verify', async (req: Request, res: Response) => {
+  try {
+    const email = normalizeEmail(req.query.email);
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+
+    if (!email || !code) {
+      return res.status(400).send('This verification link is incomplete.');
+    }
+
+    const result = await verifyEmailCode(email, code);
+    if ('error' in result) {
+      return res.status(result.status).send(result.error);
+    }
+
+    res.send('Your email has been verified. You can now sign in to the iLeap app.');
+  } catch (error: any) {
+    console.error('Verify email link error:', error);
+    res.status(500).send('Verification failed. Please try again later.');
+  }
+});
+
+/**
+ * Mail a new verification code if the email belongs to an unverified account
+ * that may receive another code now (resend interval and hourly cap).
+ */
+const resendVerificationEmail = async (email: string) => {
+  const user = await findUserByEmail(email);
+  if (!user || user.is_verified || !(await isCodeRequestAllowed(user._id, 'email_verification'))) {
+    console.log('Verification code not resent for:', email);
+    return;
+  }
+  await sendVerificationEmail(user);
+};
+
+// Send a new verification code; the response is the same whether or not a code was sent
+router.post('/verify/resend', async (req: Request, res: Response) => {
+  const email = normalizeEmail(req.body.email);
+
+  if (!email) {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+
+  res.json({ message: 'If an account is waiting for verification, a new code has been sent.' });
+
+  // Sent after answering, so response time doesn't reveal the account either
+  resendVerificationEmail(email).catch(error => {
+    console.error('Resend verification error:', error);
+  });
+});
+
 // Sign in
 router.post('/signin', async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
+    const email = normalizeEmail(req.body.email);
+    const password = typeof req.body.password === 'string' ? req.body.password : '';
 
     if (!email || !password) {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
-    const user = await User.findOne({ email }).populate('organization_profile');
+    const user = await findUserByEmail(email);
     
     if (!user) {
       console.log('Login attempt failed: User not found for email:', email);
@@ -45,17 +316,6 @@ router.post('/signin', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET is not set');
-    }
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id.toString(), email: user.email },
-      process.env.JWT_SECRET,
-      { expiresIn: '30d' }
-    );
-
     // Update last seen
     user.last_seen = new Date();
     await user.save();
@@ -66,44 +326,189 @@ router.post('/signin', async (req: Request, res: Response) => {
       id: user._id.toString(),
     });
 
-    res.json({
-      token,
-      user: {
-        id: user._id.toString(),
-        email: user.email,
-        name: user.name,
-        role: user.role || null,
-        image: user.image,
-        organization_profile: user.organization_profile,
-      },
-    });
+    res.json(await buildAuthResponse(req, user));
   } catch (error: any) {
     console.error('Sign in error:', error);
     res.status(500).json({ error: error.message || 'Sign in failed' });
   }
 });
 
-// Get current user
-router.get('/me', async (req: Request, res: Response) => {
+/**
+ * Issue and mail a reset code if the email belongs to an account with a
+ * password that may receive another code now.
+ */
+const sendPasswordResetEmail = async (email: string) => {
+  const user = await findUserByEmail(email);
+
+  // Accounts without a password (e.g. social sign-in) have nothing to reset
+  if (!user?.password || !(await isCodeRequestAllowed(user._id, 'password_reset'))) {
+    console.log('Password reset not sent for:', email);
+    return;
+  }
+
+  const code = await issueVerificationCode(user._id, 'password_reset');
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your iLeap password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your iLeap password reset code is ${code}.`,
+      'Enter it in the app to choose a new password.',
+      '',
+      `The code expires in ${VERIFICATION_CODE_TTL_MINUTES} minutes and can only be used once.`,
+      "If you didn't ask to reset your password, you can ignore this email.",
+    ].join('\n'),
+  });
+};
+
+// Request a password reset code; neither the response nor its timing reveals whether the account exists
+router.post('/password/forgot', async (req: Request, res: Response) => {
+  const email = normalizeEmail(req.body.email);
+
+  if (!email) {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+
+  res.json({ message: 'If an account exists for this email, a reset code has been sent.' });
+
+  // Looked up and sent after answering, so response time is the same either way
+  sendPasswordResetEmail(email).catch(error => {
+    console.error('Forgot password error:', error);
+  });
+});
+
+// Set a new password with a reset code; ends every existing session and signs in
+router.post('/password/reset', async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' });
+    const email = normalizeEmail(req.body.email);
+    const code = typeof req.body.code === 'string' ? req.body.code : '';
+    const password = typeof req.body.password === 'string' ? req.body.password : '';
+
+    if (!email || !code || !password) {
+      return res.status(400).json({ error: 'Email, reset code and new password are required' });
     }
 
-    const token = authHeader.substring(7);
-    
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET is not set');
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = await findUserByEmail(email);
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid reset code' });
+    }
+
+    const result = await consumeVerificationCode(user._id, 'password_reset', code);
+    if (result === 'expired') {
+      return res.status(400).json({ error: 'Reset code has expired. Please request a new one.' });
+    }
+    if (result === 'too_many_attempts') {
+      return res.status(429).json({ error: 'Too many incorrect attempts. Please request a new code.' });
+    }
+    if (result !== 'ok') {
+      return res.status(400).json({ error: 'Invalid reset code' });
+    }
+
+    user.password = await bcrypt.hash(password, 10);
+    user.password_changed_at = new Date();
+    // The code was delivered to this address, so it is verified too
+    user.is_verified = true;
+    user.last_seen = new Date();
+    await user.save();
+
+    await revokeUserSessions(user._id);
+    disconnectUser(user._id);
+
+    res.json(await buildAuthResponse(req, user));
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: error.message || 'Failed to reset password' });
+  }
+});
+
+// Sign out this device
+router.post('/signout', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSession(req.user!.sessionId);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Sign out error:', error);
+    res.status(500).json({ error: error.message || 'Sign out failed' });
+  }
+});
+
+// List the devices the current user is signed in on
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await Session.find({
+      user: new Types.ObjectId(req.user!.id),
+      revokedAt: { $exists: false },
+    })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    res.json(
+      sessions.map((session: any) => ({
+        id: session._id.toString(),
+        deviceName: session.deviceName || null,
+        platform: session.platform || null,
+        lastUsedAt: session.lastUsedAt,
+        createdAt: session.createdAt,
+        hasPushToken: !!session.pushToken,
+        current: session._id.toString() === req.user!.sessionId,
+      }))
+    );
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out one device
+router.delete('/sessions/:sessionId', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    const session = await Session.findOne({
+      _id: new Types.ObjectId(sessionId),
+      user: new Types.ObjectId(req.user!.id),
+      revokedAt: { $exists: false },
+    }).select('_id');
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as {
-      userId: string;
-      email: string;
-    };
+    await revokeSession(session._id);
 
-    const user = await User.findById(decoded.userId)
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: error.message || 'Failed to sign out device' });
+  }
+});
+
+// Sign out everywhere, including this device
+router.delete('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.id);
+
+    res.json({ success: true, revoked });
+  } catch (error: any) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to sign out everywhere' });
+  }
+});
+
+// Get current user
+router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.id)
       .select('-password')
       .populate('organization_profile');
 
@@ -118,10 +523,13 @@ router.get('/me', async (req: Request, res: Response) => {
       role: user.role || null,
       image: user.image,
       organization_profile: user.organization_profile,
+      hide_last_seen: !!user.hide_last_seen,
+      timezone: user.timezone || null,
+      quiet_hours: formatQuietHours(user.quiet_hours),
     });
   } catch (error: any) {
     console.error('Get user error:', error);
-    res.status(401).json({ error: 'Invalid or expired token' });
+    res.status(500).json({ error: error.message || 'Failed to get user' });
   }
 });
 
@@ -1,22 +1,263 @@
 import express, { Response } from 'express';
 import { Types } from 'mongoose';
-import { Message } from '../models/Message';
+import { Message, IMessage, DELETED_MESSAGE_CONTENT, GroupSystemEventType } from '../models/Message';
 import { Group } from '../models/Group';
 import { User } from '../models/User';
 import { OpportunityMentor } from '../models/OpportunityMentor';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { sendPushNotification, sendPushNotifications } from '../helpers/pushNotifications';
+import { uploadSingle, getFileType, getFileUrl, removeUploadedFile, removeStoredFile } from '../middleware/upload';
+import { getPushTokens, sendPushNotification, sendPushNotifications } from '../helpers/pushNotifications';
+import { emitToUser, emitToUsers } from '../helpers/socket';
+import { getSearchTerms, buildSearchSnippet } from '../helpers/search';
+import { isOnline } from '../helpers/presence';
+import { getDeliveryStatus, markDirectMessagesDelivered, markDirectMessagesRead } from '../helpers/receipts';
+import { filterNotifiableUsers } from '../helpers/notificationSettings';
+import { NotificationSetting } from '../models/NotificationSetting';
+import { GroupInvite } from '../models/GroupInvite';
+import { GroupJoinRequest } from '../models/GroupJoinRequest';
+import { getMentionedUserIds, parseMentions } from '../helpers/mentions';
+import { GROUP_ACTIONS, canPerformGroupAction, isGroupActionAllowed } from '../helpers/groupPolicy';
+import { requireGroupPermission, GroupRequest } from '../middleware/groupPermission';
+import { canMessageUser } from '../helpers/conversations';
+import {
+  DEFAULT_INVITE_EXPIRY_HOURS,
+  MAX_INVITE_EXPIRY_HOURS,
+  generateInviteCode,
+  getInviteError,
+  getInviteExpiry,
+  inviteUsesLeftFilter,
+  normalizeInviteCode,
+  usableInviteFilter,
+} from '../helpers/groupInvites';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticate);
 
+type MessageMedia = NonNullable<IMessage['media']>;
+
+// Longest accepted reaction; allows emoji built from several code points (skin tones, ZWJ sequences)
+const MAX_REACTION_LENGTH = 16;
+
+// How long after sending a message its sender may still edit it
+const MESSAGE_EDIT_WINDOW_MS = (Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+// Push notification body for a message, e.g. "📷 Photo: caption"
+const getMessagePreview = (content: string, media?: MessageMedia): string => {
+  const text = content.length > 100 ? content.substring(0, 100) + '...' : content;
+  if (!media) {
+    return text;
+  }
+  const label = media.type === 'video' ? '🎥 Video' : '📷 Photo';
+  return text ? `${label}: ${text}` : label;
+};
+
+// Media sub-document for an uploaded attachment
+const getMediaFromFile = (file: Express.Multer.File): MessageMedia => ({
+  url: getFileUrl(file.filename),
+  type: getFileType(file.mimetype),
+  mimeType: file.mimetype,
+  fileName: file.originalname,
+  size: file.size,
+});
+
+// Quoted message shown above a reply
+const REPLY_PREVIEW_POPULATE = {
+  path: 'replyTo',
+  select: 'content sender media.type isDeleted',
+  populate: { path: 'sender', select: 'name' },
+};
+
+// Trim the quoted message of a reply down to a short preview
+const withReplyPreview = (message: any) => {
+  if (!message?.replyTo || typeof message.replyTo.content !== 'string') {
+    return message;
+  }
+  const { content } = message.replyTo;
+  return {
+    ...message,
+    replyTo: {
+      ...message.replyTo,
+      content: content.length > 100 ? content.substring(0, 100) + '...' : content,
+    },
+  };
+};
+
+// Direct messages carry their delivery state (sent / delivered / read)
+const withDeliveryStatus = (message: any) => {
+  if (!message || message.group) {
+    return message;
+  }
+  return { ...message, status: getDeliveryStatus(message) };
+};
+
+// Senders' own messages say until when they can still be edited
+const withEditDeadline = (message: any) => {
+  if (!message || message.isDeleted || message.systemEvent?.type) {
+    return message;
+  }
+  return { ...message, editableUntil: new Date(new Date(message.createdAt).getTime() + MESSAGE_EDIT_WINDOW_MS) };
+};
+
+// Message as returned by the API and pushed over the socket
+const populateMessage = async (messageId: Types.ObjectId) => {
+  const message = await Message.findById(messageId)
+    .populate('sender', 'name image role')
+    .populate('group', 'name')
+    .populate(REPLY_PREVIEW_POPULATE)
+    .lean();
+  return withEditDeadline(withDeliveryStatus(withReplyPreview(message)));
+};
+
+// "@Name" mentions of a group's members in a message
+const findGroupMentions = async (group: any, content: string) => {
+  if (!content.includes('@')) return [];
+  const members = await User.find({ _id: { $in: group.members } }).select('name').lean<Array<{ _id: Types.ObjectId; name?: string }>>();
+  return parseMentions(content, members);
+};
+
+// Push tokens of every device of the given users
+const getUsersPushTokens = async (userIds: Types.ObjectId[]): Promise<string[]> => {
+  if (userIds.length === 0) return [];
+  const users = await User.find({
+    _id: { $in: userIds },
+    $or: [
+      { 'pushTokens.0': { $exists: true } },
+      { expoPushToken: { $exists: true, $ne: null } },
+    ],
+  }).select('pushTokens expoPushToken');
+  return users.flatMap(user => getPushTokens(user));
+};
+
+// Group as returned by the API and pushed over the socket
+const getGroupPayload = async (groupId: Types.ObjectId) => {
+  const group = await Group.findById(groupId)
+    .populate('members', 'name image role')
+    .populate('admins', 'name image role')
+    .lean() as any;
+  return {
+    ...group,
+    _id: group._id.toString(),
+    opportunityId: group.opportunityId?.toString(),
+  };
+};
+
+/**
+ * Record a change to a group as a system message sent by the member who made
+ * it. It starts out read by every member so it never shows up as unread.
+ */
+const postGroupSystemMessage = async (
+  group: any,
+  actorId: Types.ObjectId,
+  type: GroupSystemEventType,
+  content: string,
+  targetId?: Types.ObjectId
+) => {
+  const message = await Message.create({
+    sender: actorId,
+    group: group._id,
+    content,
+    systemEvent: { type, target: targetId },
+    readBy: group.members.map((memberId: Types.ObjectId) => ({ user: memberId })),
+  });
+  emitToUsers(group.members, 'message:new', await populateMessage(message._id));
+};
+
+/**
+ * Add a user to a group and announce it in the chat. The actor is whoever let
+ * them in: the user themself for open invites, or the admin who accepted their
+ * join request. Nothing is announced if they were already a member.
+ */
+const addGroupMember = async (groupId: Types.ObjectId, userId: Types.ObjectId, actorId: Types.ObjectId) => {
+  const group = await Group.findOneAndUpdate(
+    { _id: groupId, members: { $ne: userId } },
+    { $push: { members: userId }, $set: { [`memberJoinedAt.${userId}`]: new Date() } },
+    { new: true }
+  );
+  if (group) {
+    const user = await User.findById(userId).select('name');
+    await postGroupSystemMessage(group, actorId, 'member_joined', `${user?.name || 'A member'} joined the group`, userId);
+  }
+
+  const groupPayload = await getGroupPayload(groupId);
+  emitToUsers(groupPayload.members.map((member: any) => member._id), 'group:updated', groupPayload);
+  return groupPayload;
+};
+
+// When a member joined the group, in ms; members from its creation have no entry
+const getMemberJoinedAt = (group: any, memberId: Types.ObjectId): number =>
+  new Date(group.memberJoinedAt?.get(memberId.toString()) || group.createdAt).getTime();
+
+// Longest-standing first; members who joined at the same time keep their list order
+const sortByTenure = (group: any, memberIds: Types.ObjectId[]): Types.ObjectId[] =>
+  [...memberIds].sort((a, b) => getMemberJoinedAt(group, a) - getMemberJoinedAt(group, b));
+
+// Invite as listed to group admins
+const formatInvite = (invite: any) => ({
+  _id: invite._id.toString(),
+  code: invite.code,
+  expiresAt: invite.expiresAt,
+  maxUses: invite.maxUses ?? null,
+  uses: invite.uses,
+  requiresApproval: invite.requiresApproval,
+  createdBy: invite.createdBy,
+  createdAt: invite.createdAt,
+});
+
+/**
+ * The people in a group who may review its join requests, as decided by the
+ * group policy. Platform roles that oversee every group are only included if
+ * they belong to this one, so they aren't told about every group's requests.
+ */
+const getJoinRequestReviewers = async (group: any): Promise<Types.ObjectId[]> => {
+  const users = await User.find({ _id: { $in: [...group.members, group.createdBy] } }).select('role');
+  const allowed = await Promise.all(
+    users.map((user: any) => canPerformGroupAction({ id: user._id.toString(), role: user.role }, group, 'add_members'))
+  );
+  return users.filter((_user: any, index: number) => allowed[index]).map((user: any) => user._id);
+};
+
+// Tell a group's reviewers that its pending join requests changed
+const notifyJoinRequestsChanged = async (group: any) => {
+  emitToUsers(await getJoinRequestReviewers(group), 'group:join_requests', { groupId: group._id.toString() });
+};
+
+// Users connected to a message's conversation: both participants, or all group members
+const getMessageAudience = async (message: any): Promise<Types.ObjectId[]> => {
+  if (message.group) {
+    const group = await Group.findById(message.group).select('members').lean() as any;
+    return group?.members || [];
+  }
+  return [message.sender, message.receiver].filter(Boolean);
+};
+
+// Reason the user may not interact with a message, or null if they are a participant
+const getMessageAccessError = async (message: any, user: { id: string; role?: string }): Promise<string | null> => {
+  if (message.group) {
+    const group = await Group.findById(message.group).select('members admins createdBy opportunityId');
+    if (!group) {
+      return 'Group not found';
+    }
+    if (!(await canPerformGroupAction(user, group, 'view'))) {
+      return 'You are not a member of this group';
+    }
+    return null;
+  }
+  const isParticipant = [message.sender, message.receiver].some(
+    (id: Types.ObjectId) => id?.toString() === user.id
+  );
+  return isParticipant ? null : 'You are not part of this conversation';
+};
+
 // Get conversations
 router.get('/conversations', async (req: AuthRequest, res: Response) => {
   try {
     const currentUserId = new Types.ObjectId(req.user!.id);
 
+    // Loading the inbox means everything sent to us has reached a device
+    await markDirectMessagesDelivered(currentUserId);
+
     const conversations = await Message.aggregate([
       {
         $match: {
@@ -99,6 +340,7 @@ router.get('/conversations', async (req: AuthRequest, res: Response) => {
             content: 1,
             isRead: 1,
             createdAt: 1,
+            media: { type: 1 },
           },
           unreadCount: 1,
         },
@@ -115,6 +357,112 @@ router.get('/conversations', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Search messages the user can see: their direct messages and groups they belong to.
+// Optional filters: conversationId (other user), groupId, senderId, from/to (ISO dates)
+router.get('/search', async (req: AuthRequest, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const { conversationId, groupId, senderId, from, to } = req.query as Record<string, string | undefined>;
+    // Out-of-range or non-numeric paging falls back into 1..50 rather than reaching skip()
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+    const skip = (page - 1) * limit;
+    const currentUserId = new Types.ObjectId(req.user!.id);
+
+    if (!q) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+
+    const idFilters = { groupId, conversationId, senderId };
+    const invalidId = Object.entries(idFilters).find(([, id]) => id !== undefined && !Types.ObjectId.isValid(id));
+    if (invalidId) {
+      return res.status(400).json({ error: `Invalid ${invalidId[0]}` });
+    }
+
+    const filters: any[] = [];
+
+    if (groupId) {
+      const group = await Group.findById(new Types.ObjectId(groupId)).select('members admins createdBy opportunityId');
+      if (!group) {
+        return res.status(404).json({ error: 'Group not found' });
+      }
+      if (!(await canPerformGroupAction(req.user!, group, 'view'))) {
+        return res.status(403).json({ error: 'You are not a member of this group' });
+      }
+      filters.push({ group: group._id });
+    } else if (conversationId) {
+      const otherUserId = new Types.ObjectId(conversationId);
+      filters.push({
+        $or: [
+          { sender: currentUserId, receiver: otherUserId },
+          { sender: otherUserId, receiver: currentUserId },
+        ],
+      });
+    } else {
+      const groups = await Group.find({ members: currentUserId }).select('_id').lean();
+      filters.push({
+        $or: [
+          { sender: currentUserId, receiver: { $exists: true } },
+          { receiver: currentUserId },
+          { group: { $in: groups.map(group => group._id) } },
+        ],
+      });
+    }
+
+    if (senderId) {
+      filters.push({ sender: new Types.ObjectId(senderId) });
+    }
+
+    if (from || to) {
+      const createdAt: any = {};
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ error: 'Invalid date range' });
+      }
+      if (fromDate) createdAt.$gte = fromDate;
+      if (toDate) createdAt.$lte = toDate;
+      filters.push({ createdAt });
+    }
+
+    const query = {
+      $text: { $search: q },
+      isDeleted: { $ne: true },
+      'systemEvent.type': { $exists: false },
+      $and: filters,
+    };
+
+    const [messages, total] = await Promise.all([
+      Message.find(query, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('sender', 'name image role')
+        .populate('receiver', 'name image role')
+        .populate('group', 'name')
+        .lean(),
+      Message.countDocuments(query),
+    ]);
+
+    const terms = getSearchTerms(q);
+    const results = messages.map((message: any) => ({
+      message,
+      ...buildSearchSnippet(message.content, terms),
+    }));
+
+    res.json({
+      results,
+      total,
+      totalPages: Math.ceil(total / limit),
+      page,
+      limit,
+    });
+  } catch (error: any) {
+    console.error('Search messages error:', error);
+    res.status(500).json({ error: error.message || 'Failed to search messages' });
+  }
+});
+
 // Get messages for a conversation
 router.get('/messages/:userId', async (req: AuthRequest, res: Response) => {
   try {
@@ -139,36 +487,25 @@ router.get('/messages/:userId', async (req: AuthRequest, res: Response) => {
       .sort({ createdAt: -1 })
       .limit(limit + 1)
       .populate('sender', 'name image role')
+      .populate(REPLY_PREVIEW_POPULATE)
       .lean();
 
+    // The extra message only signals another page; the next page starts
+    // below the oldest message returned here
     let nextCursor: string | undefined = undefined;
     if (messages.length > limit) {
-      const nextItem = messages.pop();
-      if (nextItem && nextItem._id) {
-        nextCursor = nextItem._id.toString();
+      messages.pop();
+      const oldestItem = messages[messages.length - 1];
+      if (oldestItem && oldestItem._id) {
+        nextCursor = oldestItem._id.toString();
       }
     }
 
     // Mark messages as read
-    await Message.updateMany(
-      {
-        sender: otherUserId,
-        receiver: currentUserId,
-        isRead: false,
-      },
-      {
-        $set: { isRead: true },
-        $push: {
-          readBy: {
-            user: currentUserId,
-            readAt: new Date(),
-          },
-        },
-      }
-    );
+    await markDirectMessagesRead(currentUserId, otherUserId);
 
     res.json({
-      messages: messages.reverse(),
+      messages: messages.reverse().map(message => withEditDeadline(withDeliveryStatus(withReplyPreview(message)))),
       nextCursor,
     });
   } catch (error: any) {
@@ -177,105 +514,364 @@ router.get('/messages/:userId', async (req: AuthRequest, res: Response) => {
   }
 });
 
+interface SendMessageOptions {
+  content: string;
+  media?: MessageMedia;
+  replyToId?: string;
+}
+
+/**
+ * Create a direct message, notify the receiver and send the response.
+ * Shared by the text and media send routes.
+ */
+const sendDirectMessage = async (
+  req: AuthRequest,
+  res: Response,
+  receiverId: string,
+  { content, media, replyToId }: SendMessageOptions
+) => {
+  const senderId = new Types.ObjectId(req.user!.id);
+  const receiverIdObj = new Types.ObjectId(receiverId);
+
+  // Get sender user to check role
+  const sender = await User.findById(senderId);
+  if (!sender) {
+    return res.status(404).json({ error: 'Sender not found' });
+  }
+
+  // Volunteers can only reply to existing conversations
+  if (!(await canMessageUser({ id: req.user!.id, role: sender.role }, receiverId))) {
+    return res.status(403).json({ 
+      error: 'Only organizations, admins, and mentors can initiate new conversations. Volunteers can only reply to existing conversations.' 
+    });
+  }
+
+  // Replies must quote a message from the same conversation
+  if (replyToId) {
+    const replyTo = await Message.exists({
+      _id: new Types.ObjectId(replyToId),
+      $or: [
+        { sender: senderId, receiver: receiverIdObj },
+        { sender: receiverIdObj, receiver: senderId },
+      ],
+    });
+    if (!replyTo) {
+      return res.status(400).json({ error: 'The message you are replying to is not in this conversation' });
+    }
+  }
+
+  // Prepare message data
+  const messageData: any = {
+    sender: senderId,
+    receiver: receiverIdObj,
+    content: content,
+  };
+  if (media) {
+    messageData.media = media;
+  }
+  if (replyToId) {
+    messageData.replyTo = new Types.ObjectId(replyToId);
+  }
+  // A connected receiver gets the message over the socket right away
+  if (isOnline(receiverIdObj.toString())) {
+    messageData.deliveredAt = new Date();
+  }
+
+  const message = await Message.create(messageData);
+
+  const populatedMessage = await populateMessage(message._id);
+
+  // Send push notification to receiver
+  console.log(`🔔 ===== PUSH NOTIFICATION CHECK STARTED =====`);
+  console.log(`🔔 Message created successfully, checking for receiver: ${receiverIdObj}`);
+  console.log(`🔔 Sender: ${senderId}, Receiver: ${receiverIdObj}`);
+  
+  try {
+    // The receiver's settings for this conversation may mute it
+    const [notifiable] = await filterNotifiableUsers([receiverIdObj], 'conversation', senderId);
+    const receiver = notifiable
+      ? await User.findById(receiverIdObj).select('pushTokens expoPushToken name')
+      : null;
+    const receiverTokens = getPushTokens(receiver);
+    console.log(`🔍 Checking push notification for receiver: ${receiverIdObj}`);
+    console.log(`🔍 Receiver found: ${!!receiver}, Devices: ${receiverTokens.length}`);
+    
+    if (receiver && receiverTokens.length > 0) {
+      const senderName = sender.name || 'Someone';
+      const messagePreview = getMessagePreview(content, media);
+      
+      console.log(`📤 Sending push notification to: ${receiver.name || receiverId}`);
+      console.log(`📤 Title: ${senderName}, Body: ${messagePreview.substring(0, 50)}...`);
+      
+      await sendPushNotification(
+        receiverTokens,
+        senderName,
+        messagePreview,
+        {
+          type: 'message',
+          senderId: senderId.toString(),
+          receiverId: receiverId.toString(),
+          messageId: message._id.toString(),
+        }
+      );
+      console.log(`✅ Push notification sent to ${receiver.name || receiverId}`);
+    } else {
+      if (!notifiable) {
+        console.log(`🔕 Receiver ${receiverIdObj} muted this conversation`);
+      } else if (!receiver) {
+        console.warn(`⚠️ Receiver not found: ${receiverIdObj}`);
+      } else if (receiverTokens.length === 0) {
+        console.warn(`⚠️ Receiver ${receiver.name || receiverId} has no push token registered`);
+      }
+    }
+  } catch (pushError) {
+    // Don't fail the message send if push notification fails
+    console.error('❌ Error sending push notification:', pushError);
+    console.error('❌ Push error stack:', pushError instanceof Error ? pushError.stack : 'No stack trace');
+  }
+  
+  console.log(`🔔 ===== PUSH NOTIFICATION CHECK COMPLETED =====`);
+
+  // Deliver in real time to the receiver and the sender's other devices
+  emitToUsers([receiverIdObj, senderId], 'message:new', populatedMessage);
+
+  res.json(populatedMessage);
+};
+
 // Send message
 router.post('/messages', async (req: AuthRequest, res: Response) => {
   try {
-    const { receiverId, content } = req.body;
+    const { receiverId, content, replyTo } = req.body;
 
     if (!receiverId || !content) {
       return res.status(400).json({ error: 'Receiver ID and content are required' });
     }
 
-    const senderId = new Types.ObjectId(req.user!.id);
-    const receiverIdObj = new Types.ObjectId(receiverId);
+    await sendDirectMessage(req, res, receiverId, { content, replyToId: replyTo });
+  } catch (error: any) {
+    console.error('Send message error:', error);
+    res.status(500).json({ error: error.message || 'Failed to send message' });
+  }
+});
+
+// Send media message (multipart: `file`, `receiverId`, optional `content` caption and `replyTo`)
+router.post('/messages/media', uploadSingle('file'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { receiverId, content, replyTo } = req.body;
 
-    // Get sender user to check role
-    const sender = await User.findById(senderId);
-    if (!sender) {
-      return res.status(404).json({ error: 'Sender not found' });
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required' });
     }
 
-    // Check if this is a new conversation (first message)
-    const existingMessages = await Message.findOne({
-      $or: [
-        { sender: senderId, receiver: receiverIdObj },
-        { sender: receiverIdObj, receiver: senderId },
-      ],
+    if (!receiverId) {
+      return res.status(400).json({ error: 'Receiver ID is required' });
+    }
+
+    await sendDirectMessage(req, res, receiverId, {
+      content: content || '',
+      media: getMediaFromFile(req.file),
+      replyToId: replyTo,
     });
+  } catch (error: any) {
+    console.error('Send media message error:', error);
+    res.status(500).json({ error: error.message || 'Failed to send media message' });
+  } finally {
+    // Don't keep attachments for messages that were rejected
+    if (req.file && res.statusCode >= 400) {
+      removeUploadedFile(req.file);
+    }
+  }
+});
 
-    // Only organizations (and admins) can initiate new conversations
-    // Volunteers can only reply to existing conversations
-    if (!existingMessages) {
-      const canInitiate = sender.role === 'organization' || sender.role === 'admin' || sender.role === 'mentor';
-      if (!canInitiate) {
-        return res.status(403).json({ 
-          error: 'Only organizations, admins, and mentors can initiate new conversations. Volunteers can only reply to existing conversations.' 
-        });
-      }
+// Edit a message - Only the sender, within the edit window
+router.put('/messages/:messageId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const { content } = req.body;
+    const currentUserId = new Types.ObjectId(req.user!.id);
+
+    const message = await Message.findById(new Types.ObjectId(messageId));
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
     }
 
-    // Prepare message data
-    const messageData: any = {
-      sender: senderId,
-      receiver: receiverIdObj,
-      content: content,
-    };
+    if (message.sender.toString() !== currentUserId.toString()) {
+      return res.status(403).json({ error: 'You can only edit your own messages' });
+    }
 
-    const message = await Message.create(messageData);
+    if (message.isDeleted) {
+      return res.status(400).json({ error: 'Deleted messages cannot be edited' });
+    }
 
-    const populatedMessage = await Message.findById(message._id)
-      .populate('sender', 'name image role')
-      .lean();
+    if (message.systemEvent?.type) {
+      return res.status(400).json({ error: 'System messages cannot be edited' });
+    }
 
-    // Send push notification to receiver
-    console.log(`🔔 ===== PUSH NOTIFICATION CHECK STARTED =====`);
-    console.log(`🔔 Message created successfully, checking for receiver: ${receiverIdObj}`);
-    console.log(`🔔 Sender: ${senderId}, Receiver: ${receiverIdObj}`);
-    
-    try {
-      const receiver = await User.findById(receiverIdObj).select('expoPushToken name');
-      console.log(`🔍 Checking push notification for receiver: ${receiverIdObj}`);
-      console.log(`🔍 Receiver found: ${!!receiver}, Has token: ${!!receiver?.expoPushToken}`);
-      
-      if (receiver && receiver.expoPushToken) {
-        const senderName = sender.name || 'Someone';
-        const messagePreview = content.length > 100 ? content.substring(0, 100) + '...' : content;
-        
-        console.log(`📤 Sending push notification to: ${receiver.name || receiverId}`);
-        console.log(`📤 Token: ${receiver.expoPushToken.substring(0, 20)}...`);
-        console.log(`📤 Title: ${senderName}, Body: ${messagePreview.substring(0, 50)}...`);
-        
-        await sendPushNotification(
-          receiver.expoPushToken,
-          senderName,
-          messagePreview,
-          {
-            type: 'message',
-            senderId: senderId.toString(),
-            receiverId: receiverId.toString(),
-            messageId: message._id.toString(),
-          }
-        );
-        console.log(`✅ Push notification sent to ${receiver.name || receiverId}`);
-      } else {
-        if (!receiver) {
-          console.warn(`⚠️ Receiver not found: ${receiverIdObj}`);
-        } else if (!receiver.expoPushToken) {
-          console.warn(`⚠️ Receiver ${receiver.name || receiverId} has no push token registered`);
-        }
+    const trimmedContent = typeof content === 'string' ? content.trim() : '';
+    if (!trimmedContent && !message.media?.url) {
+      return res.status(400).json({ error: 'Content is required' });
+    }
+
+    const sentAt = new Date(message.createdAt).getTime();
+    if (Date.now() - sentAt > MESSAGE_EDIT_WINDOW_MS) {
+      return res.status(403).json({
+        error: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MS / 60000} minutes of sending`,
+      });
+    }
+
+    if (trimmedContent !== message.content) {
+      const editedAt = new Date();
+      message.editHistory.push({ content: message.content, editedAt });
+      message.content = trimmedContent;
+      message.editedAt = editedAt;
+      if (message.group) {
+        // Offsets refer to the content, so mentions are found again (edits don't notify)
+        const group = await Group.findById(message.group).select('members');
+        message.mentions = group ? await findGroupMentions(group, trimmedContent) : [];
       }
-    } catch (pushError) {
-      // Don't fail the message send if push notification fails
-      console.error('❌ Error sending push notification:', pushError);
-      console.error('❌ Push error stack:', pushError instanceof Error ? pushError.stack : 'No stack trace');
+      await message.save();
     }
-    
-    console.log(`🔔 ===== PUSH NOTIFICATION CHECK COMPLETED =====`);
+
+    const populatedMessage = await populateMessage(message._id);
+    emitToUsers(await getMessageAudience(message), 'message:updated', populatedMessage);
 
     res.json(populatedMessage);
   } catch (error: any) {
-    console.error('Send message error:', error);
-    res.status(500).json({ error: error.message || 'Failed to send message' });
+    console.error('Edit message error:', error);
+    res.status(500).json({ error: error.message || 'Failed to edit message' });
+  }
+});
+
+// Delete a message - The sender, or a group moderator
+router.delete('/messages/:messageId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const currentUserId = new Types.ObjectId(req.user!.id);
+
+    const message = await Message.findById(new Types.ObjectId(messageId));
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    if (message.systemEvent?.type) {
+      return res.status(400).json({ error: 'System messages cannot be deleted' });
+    }
+
+    const isSender = message.sender.toString() === currentUserId.toString();
+    let isGroupModerator = false;
+    if (!isSender && message.group) {
+      const group = await Group.findById(message.group).select('members admins createdBy opportunityId');
+      isGroupModerator = !!group && (await canPerformGroupAction(req.user!, group, 'delete_messages'));
+    }
+
+    if (!isSender && !isGroupModerator) {
+      return res.status(403).json({ error: 'You don\'t have permission to delete this message' });
+    }
+
+    if (!message.isDeleted) {
+      const mediaUrl = message.media?.url;
+      // Soft delete: keep the document so replies and read state stay intact,
+      // but drop everything the sender wrote
+      message.isDeleted = true;
+      message.deletedAt = new Date();
+      message.deletedBy = currentUserId as any;
+      message.content = DELETED_MESSAGE_CONTENT;
+      message.media = undefined;
+      message.editHistory = [];
+      message.reactions = [];
+      message.mentions = [];
+      await message.save();
+      // The attachment is served publicly, so the file itself has to go too
+      removeStoredFile(mediaUrl);
+    }
+
+    const populatedMessage = await populateMessage(message._id);
+    emitToUsers(await getMessageAudience(message), 'message:updated', populatedMessage);
+
+    res.json(populatedMessage);
+  } catch (error: any) {
+    console.error('Delete message error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete message' });
+  }
+});
+
+// React to a direct or group message
+router.post('/messages/:messageId/reactions', async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const { emoji } = req.body;
+    const currentUserId = new Types.ObjectId(req.user!.id);
+
+    const trimmedEmoji = typeof emoji === 'string' ? emoji.trim() : '';
+    if (!trimmedEmoji || trimmedEmoji.length > MAX_REACTION_LENGTH) {
+      return res.status(400).json({ error: 'A single emoji is required' });
+    }
+
+    const message = await Message.findById(new Types.ObjectId(messageId));
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    const accessError = await getMessageAccessError(message, req.user!);
+    if (accessError) {
+      return res.status(403).json({ error: accessError });
+    }
+
+    if (message.isDeleted) {
+      return res.status(400).json({ error: 'Deleted messages cannot be reacted to' });
+    }
+
+    // Reactions don't send push notifications; connected clients just update the message
+    const result = await Message.updateOne(
+      {
+        _id: message._id,
+        reactions: { $not: { $elemMatch: { user: currentUserId, emoji: trimmedEmoji } } },
+      },
+      { $push: { reactions: { user: currentUserId, emoji: trimmedEmoji } } }
+    );
+
+    const populatedMessage = await populateMessage(message._id);
+    if (result.modifiedCount > 0) {
+      emitToUsers(await getMessageAudience(message), 'message:updated', populatedMessage);
+    }
+
+    res.json(populatedMessage);
+  } catch (error: any) {
+    console.error('Add reaction error:', error);
+    res.status(500).json({ error: error.message || 'Failed to add reaction' });
+  }
+});
+
+// Remove your reaction from a message
+router.delete('/messages/:messageId/reactions/:emoji', async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId, emoji } = req.params;
+    const currentUserId = new Types.ObjectId(req.user!.id);
+
+    const message = await Message.findById(new Types.ObjectId(messageId));
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    const accessError = await getMessageAccessError(message, req.user!);
+    if (accessError) {
+      return res.status(403).json({ error: accessError });
+    }
+
+    const result = await Message.updateOne(
+      { _id: message._id },
+      { $pull: { reactions: { user: currentUserId, emoji } } }
+    );
+
+    const populatedMessage = await populateMessage(message._id);
+    if (result.modifiedCount > 0) {
+      emitToUsers(await getMessageAudience(message), 'message:updated', populatedMessage);
+    }
+
+    res.json(populatedMessage);
+  } catch (error: any) {
+    console.error('Remove reaction error:', error);
+    res.status(500).json({ error: error.message || 'Failed to remove reaction' });
   }
 });
 
@@ -286,18 +882,9 @@ router.post('/conversations/:conversationId/read', async (req: AuthRequest, res:
     const currentUserId = new Types.ObjectId(req.user!.id);
     const conversationIdObj = new Types.ObjectId(conversationId);
 
-    const result = await Message.updateMany(
-      {
-        sender: conversationIdObj,
-        receiver: currentUserId,
-        isRead: false,
-      },
-      {
-        $set: { isRead: true },
-      }
-    );
+    const updatedCount = await markDirectMessagesRead(currentUserId, conversationIdObj);
 
-    res.json({ success: true, updatedCount: result.modifiedCount });
+    res.json({ success: true, updatedCount });
   } catch (error: any) {
     console.error('Mark as read error:', error);
     res.status(500).json({ error: error.message || 'Failed to mark as read' });
@@ -333,6 +920,7 @@ router.get('/groups', async (req: AuthRequest, res: Response) => {
           lastMessage: lastMessage
             ? {
                 content: lastMessage.content,
+                media: lastMessage.media?.type ? { type: lastMessage.media.type } : undefined,
                 isRead: lastMessage.readBy?.some(
                   (read: { user: Types.ObjectId }) =>
                     read.user.toString() === currentUserId.toString()
@@ -360,22 +948,14 @@ router.get('/groups', async (req: AuthRequest, res: Response) => {
 });
 
 // Get group messages
-router.get('/groups/:groupId/messages', async (req: AuthRequest, res: Response) => {
+router.get('/groups/:groupId/messages', requireGroupPermission('view'), async (req: GroupRequest, res: Response) => {
   try {
     const { groupId } = req.params;
     const limit = parseInt(req.query.limit as string) || 20;
     const cursor = req.query.cursor as string;
     const currentUserId = new Types.ObjectId(req.user!.id);
     const groupIdObj = new Types.ObjectId(groupId);
-
-    const group = await Group.findById(groupIdObj);
-    if (!group) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    if (!group.members.includes(currentUserId)) {
-      return res.status(403).json({ error: 'You are not a member of this group' });
-    }
+    const group = req.group;
 
     const query: any = { group: groupIdObj };
     if (cursor) {
@@ -386,18 +966,23 @@ router.get('/groups/:groupId/messages', async (req: AuthRequest, res: Response)
       .sort({ createdAt: -1 })
       .limit(limit + 1)
       .populate('sender', 'name image role')
+      .populate(REPLY_PREVIEW_POPULATE)
       .lean();
 
+    // The extra message only signals another page; the next page starts
+    // below the oldest message returned here
     let nextCursor: string | undefined = undefined;
     if (messages.length > limit) {
-      const nextItem = messages.pop();
-      if (nextItem && nextItem._id) {
-        nextCursor = nextItem._id.toString();
+      messages.pop();
+      const oldestItem = messages[messages.length - 1];
+      if (oldestItem && oldestItem._id) {
+        nextCursor = oldestItem._id.toString();
       }
     }
 
     // Mark messages as read
-    await Message.updateMany(
+    const readAt = new Date();
+    const readResult = await Message.updateMany(
       {
         group: groupIdObj,
         'readBy.user': { $ne: currentUserId },
@@ -406,14 +991,22 @@ router.get('/groups/:groupId/messages', async (req: AuthRequest, res: Response)
         $push: {
           readBy: {
             user: currentUserId,
-            readAt: new Date(),
+            readAt,
           },
         },
       }
     );
 
+    if (readResult.modifiedCount > 0) {
+      emitToUsers(group.members, 'message:read', {
+        groupId,
+        readerId: currentUserId.toString(),
+        readAt,
+      });
+    }
+
     res.json({
-      messages: messages.reverse(),
+      messages: messages.reverse().map(message => withEditDeadline(withReplyPreview(message))),
       nextCursor,
     });
   } catch (error: any) {
@@ -422,93 +1015,252 @@ router.get('/groups/:groupId/messages', async (req: AuthRequest, res: Response)
   }
 });
 
-// Send group message
-router.post('/groups/:groupId/messages', async (req: AuthRequest, res: Response) => {
+// Mark group messages as read
+router.post('/groups/:groupId/read', requireGroupPermission('view'), async (req: GroupRequest, res: Response) => {
   try {
     const { groupId } = req.params;
-    const { content } = req.body;
-
-    if (!content) {
-      return res.status(400).json({ error: 'Content is required' });
-    }
-
     const currentUserId = new Types.ObjectId(req.user!.id);
     const groupIdObj = new Types.ObjectId(groupId);
+    const group = req.group;
 
-    const group = await Group.findOne({ _id: groupIdObj, members: currentUserId });
-    if (!group) {
-      return res.status(404).json({ error: 'Group not found or you are not a member' });
-    }
-
-    // Prepare message data
-    const messageData: any = {
-      sender: currentUserId,
-      group: groupIdObj,
-      content: content,
-      readBy: [{ user: currentUserId }],
-    };
-
-    const message = await Message.create(messageData);
-
-    const populatedMessage = await Message.findById(message._id)
-      .populate('sender', 'name image role')
-      .populate('group', 'name')
-      .lean();
-
-    // Send push notifications to all group members except the sender
-    try {
-      const sender = await User.findById(currentUserId).select('name');
-      const senderName = sender?.name || 'Someone';
-      const groupName = group.name || 'Group';
-      const messagePreview = content.length > 100 ? content.substring(0, 100) + '...' : content;
-
-      // Get all group members except the sender
-      const memberIds = group.members.filter(
-        (memberId: Types.ObjectId) => !memberId.equals(currentUserId)
-      );
-
-      if (memberIds.length > 0) {
-        // Get push tokens for all members
-        const members = await User.find({
-          _id: { $in: memberIds },
-          expoPushToken: { $exists: true, $ne: null },
-        }).select('expoPushToken name');
-
-        const pushTokens = members
-          .map(member => member.expoPushToken)
-          .filter((token): token is string => !!token);
-
-        if (pushTokens.length > 0) {
-          await sendPushNotifications(
-            pushTokens,
-            `${senderName} in ${groupName}`,
-            messagePreview,
-            {
-              type: 'group_message',
-              senderId: currentUserId.toString(),
-              groupId: groupId,
-              messageId: message._id.toString(),
-            }
-          );
-          console.log(`📱 Push notifications sent to ${pushTokens.length} group members`);
-        }
+    const readAt = new Date();
+    const result = await Message.updateMany(
+      {
+        group: groupIdObj,
+        'readBy.user': { $ne: currentUserId },
+      },
+      {
+        $push: {
+          readBy: {
+            user: currentUserId,
+            readAt,
+          },
+        },
       }
-    } catch (pushError) {
-      // Don't fail the message send if push notification fails
-      console.error('Error sending push notifications:', pushError);
+    );
+
+    if (result.modifiedCount > 0) {
+      emitToUsers(group.members, 'message:read', {
+        groupId,
+        readerId: currentUserId.toString(),
+        readAt,
+      });
     }
 
-    res.json(populatedMessage);
+    res.json({ success: true, updatedCount: result.modifiedCount });
   } catch (error: any) {
-    console.error('Send group message error:', error);
-    res.status(500).json({ error: error.message || 'Failed to send group message' });
+    console.error('Mark group as read error:', error);
+    res.status(500).json({ error: error.message || 'Failed to mark group as read' });
   }
 });
 
-// Create group - Only organizations and admins can create groups
-router.post('/groups', async (req: AuthRequest, res: Response) => {
+// The caller's allowed actions for a group, so the app shows only what will succeed
+router.get('/groups/:groupId/permissions', requireGroupPermission('view'), async (req: GroupRequest, res: Response) => {
   try {
-    const { name, description, memberIds, isOrganizationGroup, opportunityId } = req.body;
+    const { groupId } = req.params;
+    const actions = GROUP_ACTIONS.filter(action => isGroupActionAllowed(req.groupPrincipals!, action));
+    res.json({ groupId, actions });
+  } catch (error: any) {
+    console.error('Get group permissions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch group permissions' });
+  }
+});
+
+// Who has and hasn't read a group message (current members other than the sender)
+router.get('/groups/:groupId/messages/:messageId/readers', requireGroupPermission('view'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { groupId, messageId } = req.params;
+
+    const group = await req.group.populate('members', 'name image role');
+    const members = group.members as any[];
+
+    const message = await populateMessage(new Types.ObjectId(messageId));
+    if (!message || message.group?._id?.toString() !== groupId) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    const readAtByUser = new Map<string, Date>(
+      (message.readBy || []).map((entry: any) => [entry.user.toString(), entry.readAt])
+    );
+    const senderId = message.sender._id.toString();
+
+    const readers: Array<{ user: any; readAt: Date }> = [];
+    const unread: any[] = [];
+    members.forEach(member => {
+      const memberId = member._id.toString();
+      if (memberId === senderId) return;
+      const readAt = readAtByUser.get(memberId);
+      if (readAt) {
+        readers.push({ user: member, readAt });
+      } else {
+        unread.push(member);
+      }
+    });
+    readers.sort((a, b) => new Date(a.readAt).getTime() - new Date(b.readAt).getTime());
+
+    const { readBy, ...messageWithoutReadBy } = message;
+    res.json({
+      message: messageWithoutReadBy,
+      readers,
+      unread,
+    });
+  } catch (error: any) {
+    console.error('Get message readers error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch message readers' });
+  }
+});
+
+/**
+ * Create a group message, notify the other members and send the response.
+ * Shared by the text and media send routes.
+ */
+const sendGroupMessage = async (
+  req: GroupRequest,
+  res: Response,
+  { content, media, replyToId }: SendMessageOptions
+) => {
+  const currentUserId = new Types.ObjectId(req.user!.id);
+  const group = req.group;
+  const groupId = group._id.toString();
+  const groupIdObj = group._id;
+
+  // Replies must quote a message from the same group
+  if (replyToId) {
+    const replyTo = await Message.exists({
+      _id: new Types.ObjectId(replyToId),
+      group: groupIdObj,
+    });
+    if (!replyTo) {
+      return res.status(400).json({ error: 'The message you are replying to is not in this group' });
+    }
+  }
+
+  // Prepare message data
+  const messageData: any = {
+    sender: currentUserId,
+    group: groupIdObj,
+    content: content,
+    readBy: [{ user: currentUserId }],
+  };
+  if (media) {
+    messageData.media = media;
+  }
+  if (replyToId) {
+    messageData.replyTo = new Types.ObjectId(replyToId);
+  }
+  const mentions = await findGroupMentions(group, content);
+  if (mentions.length > 0) {
+    messageData.mentions = mentions;
+  }
+
+  const message = await Message.create(messageData);
+
+  const populatedMessage = await populateMessage(message._id);
+
+  // Send push notifications to all group members except the sender
+  try {
+    const sender = await User.findById(currentUserId).select('name');
+    const senderName = sender?.name || 'Someone';
+    const groupName = group.name || 'Group';
+    const messagePreview = getMessagePreview(content, media);
+    const pushData = {
+      type: 'group_message',
+      senderId: currentUserId.toString(),
+      groupId: groupId,
+      messageId: message._id.toString(),
+    };
+
+    // Mentioned members get their own push, even if they muted the group
+    const mentionedIds = getMentionedUserIds(mentions).filter(userId => !userId.equals(currentUserId));
+    const mentionTokens = await getUsersPushTokens(mentionedIds);
+    if (mentionTokens.length > 0) {
+      await sendPushNotifications(
+        mentionTokens,
+        `You were mentioned in ${groupName}`,
+        `${senderName}: ${messagePreview}`,
+        { ...pushData, mention: true }
+      );
+      console.log(`📱 Mention notifications sent to ${mentionedIds.length} group members`);
+    }
+
+    // Get all other group members except the sender who haven't muted the group
+    const memberIds = await filterNotifiableUsers(
+      group.members.filter(
+        (memberId: Types.ObjectId) =>
+          !memberId.equals(currentUserId) && !mentionedIds.some(userId => userId.equals(memberId))
+      ),
+      'group',
+      groupIdObj
+    );
+
+    if (memberIds.length > 0) {
+      const pushTokens = await getUsersPushTokens(memberIds);
+
+      if (pushTokens.length > 0) {
+        await sendPushNotifications(
+          pushTokens,
+          `${senderName} in ${groupName}`,
+          messagePreview,
+          pushData
+        );
+        console.log(`📱 Push notifications sent to ${pushTokens.length} group members`);
+      }
+    }
+  } catch (pushError) {
+    // Don't fail the message send if push notification fails
+    console.error('Error sending push notifications:', pushError);
+  }
+
+  emitToUsers(group.members, 'message:new', populatedMessage);
+
+  res.json(populatedMessage);
+};
+
+// Send group message
+router.post('/groups/:groupId/messages', requireGroupPermission('send_message'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { content, replyTo } = req.body;
+
+    if (!content) {
+      return res.status(400).json({ error: 'Content is required' });
+    }
+
+    await sendGroupMessage(req, res, { content, replyToId: replyTo });
+  } catch (error: any) {
+    console.error('Send group message error:', error);
+    res.status(500).json({ error: error.message || 'Failed to send group message' });
+  }
+});
+
+// Send group media message (multipart: `file`, optional `content` caption and `replyTo`)
+router.post('/groups/:groupId/messages/media', requireGroupPermission('send_message'), uploadSingle('file'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { content, replyTo } = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required' });
+    }
+
+    await sendGroupMessage(req, res, {
+      content: content || '',
+      media: getMediaFromFile(req.file),
+      replyToId: replyTo,
+    });
+  } catch (error: any) {
+    console.error('Send group media message error:', error);
+    res.status(500).json({ error: error.message || 'Failed to send group media message' });
+  } finally {
+    // Don't keep attachments for messages that were rejected
+    if (req.file && res.statusCode >= 400) {
+      removeUploadedFile(req.file);
+    }
+  }
+});
+
+// Create group - Only organizations and admins can create groups
+router.post('/groups', async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, description, memberIds, isOrganizationGroup, opportunityId } = req.body;
 
     if (!name || !memberIds || !Array.isArray(memberIds)) {
       return res.status(400).json({ error: 'Name and member IDs are required' });
@@ -563,8 +1315,8 @@ router.post('/groups', async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Deduplicate member IDs and include creator
-    const allMemberIds = [...memberIds.map((id: string) => new Types.ObjectId(id)), currentUserId];
+    // Deduplicate member IDs and include creator (first, as they were there before anyone else)
+    const allMemberIds = [currentUserId, ...memberIds.map((id: string) => new Types.ObjectId(id))];
     const uniqueMemberIds = Array.from(
       new Set(allMemberIds.map(id => id.toString()))
     ).map(id => new Types.ObjectId(id));
@@ -598,54 +1350,28 @@ router.post('/groups', async (req: AuthRequest, res: Response) => {
       .populate('admins', 'name image role')
       .lean();
 
-    res.json({
+    const groupPayload = {
       ...populatedGroup,
       _id: group._id.toString(),
       opportunityId: group.opportunityId?.toString(),
-    });
+    };
+
+    emitToUsers(uniqueMemberIds, 'group:updated', groupPayload);
+
+    res.json(groupPayload);
   } catch (error: any) {
     console.error('Create group error:', error);
     res.status(500).json({ error: error.message || 'Failed to create group' });
   }
 });
 
-// Update group - Only admins can update
-router.put('/groups/:groupId', async (req: AuthRequest, res: Response) => {
+// Update group name or description
+router.put('/groups/:groupId', requireGroupPermission('update_group'), async (req: GroupRequest, res: Response) => {
   try {
     const { groupId } = req.params;
     const { name, description } = req.body;
-    const currentUserId = new Types.ObjectId(req.user!.id);
     const groupIdObj = new Types.ObjectId(groupId);
 
-    const group = await Group.findById(groupIdObj);
-    if (!group) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    const user = await User.findById(currentUserId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    // Check permissions: Allow if user is admin/organization OR if user is admin of the group OR if user is an opportunity mentor OR if user is the group creator
-    const isAdminOrOrganization = user.role === 'admin' || user.role === 'organization';
-    const isGroupAdmin = group.admins.some((adminId: Types.ObjectId) => adminId.toString() === currentUserId.toString());
-    const isGroupCreator = group.createdBy.toString() === currentUserId.toString();
-    
-    // Check if user is an opportunity mentor for this group's opportunity
-    let isOpportunityMentor = false;
-    if (group.opportunityId && user.role === 'volunteer') {
-      const mentorAssignment = await OpportunityMentor.findOne({
-        volunteer: currentUserId,
-        opportunity: group.opportunityId,
-      });
-      isOpportunityMentor = !!mentorAssignment;
-    }
-    
-    if (!isAdminOrOrganization && !isGroupAdmin && !isOpportunityMentor && !isGroupCreator) {
-      return res.status(403).json({ error: 'You don\'t have permission to update this group' });
-    }
-
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (description !== undefined) updateData.description = description;
@@ -659,19 +1385,23 @@ router.put('/groups/:groupId', async (req: AuthRequest, res: Response) => {
       .populate('admins', 'name image role')
       .lean() as any;
 
-    res.json({
+    const groupPayload = {
       ...updatedGroup,
       _id: updatedGroup._id.toString(),
       opportunityId: updatedGroup.opportunityId?.toString(),
-    });
+    };
+
+    emitToUsers(updatedGroup.members.map((member: any) => member._id), 'group:updated', groupPayload);
+
+    res.json(groupPayload);
   } catch (error: any) {
     console.error('Update group error:', error);
     res.status(500).json({ error: error.message || 'Failed to update group' });
   }
 });
 
-// Add members to group - Only admins can add members
-router.post('/groups/:groupId/members', async (req: AuthRequest, res: Response) => {
+// Add members to group
+router.post('/groups/:groupId/members', requireGroupPermission('add_members'), async (req: GroupRequest, res: Response) => {
   try {
     const { groupId } = req.params;
     const { memberIds } = req.body;
@@ -680,37 +1410,8 @@ router.post('/groups/:groupId/members', async (req: AuthRequest, res: Response)
       return res.status(400).json({ error: 'Member IDs array is required' });
     }
 
-    const currentUserId = new Types.ObjectId(req.user!.id);
     const groupIdObj = new Types.ObjectId(groupId);
-
-    const group = await Group.findById(groupIdObj);
-    if (!group) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    const user = await User.findById(currentUserId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    // Check permissions: Allow if user is admin/organization OR if user is admin of the group OR if user is an opportunity mentor OR if user is the group creator
-    const isAdminOrOrganization = user.role === 'admin' || user.role === 'organization';
-    const isGroupAdmin = group.admins.some((adminId: Types.ObjectId) => adminId.toString() === currentUserId.toString());
-    const isGroupCreator = group.createdBy.toString() === currentUserId.toString();
-    
-    // Check if user is an opportunity mentor for this group's opportunity
-    let isOpportunityMentor = false;
-    if (group.opportunityId && user.role === 'volunteer') {
-      const mentorAssignment = await OpportunityMentor.findOne({
-        volunteer: currentUserId,
-        opportunity: group.opportunityId,
-      });
-      isOpportunityMentor = !!mentorAssignment;
-    }
-    
-    if (!isAdminOrOrganization && !isGroupAdmin && !isOpportunityMentor && !isGroupCreator) {
-      return res.status(403).json({ error: 'You don\'t have permission to add members to this group' });
-    }
+    const group = req.group;
 
     // Add new members (avoid duplicates)
     const newMemberIds = memberIds.map((id: string) => new Types.ObjectId(id));
@@ -720,6 +1421,8 @@ router.post('/groups/:groupId/members', async (req: AuthRequest, res: Response)
     );
 
     group.members = [...group.members, ...uniqueNewMembers];
+    const joinedAt = new Date();
+    uniqueNewMembers.forEach(id => group.memberJoinedAt.set(id.toString(), joinedAt));
     await group.save();
 
     const updatedGroup = await Group.findById(groupIdObj)
@@ -727,52 +1430,31 @@ router.post('/groups/:groupId/members', async (req: AuthRequest, res: Response)
       .populate('admins', 'name image role')
       .lean() as any;
 
-    res.json({
+    const groupPayload = {
       ...updatedGroup,
       _id: updatedGroup._id.toString(),
       opportunityId: updatedGroup.opportunityId?.toString(),
-    });
+    };
+
+    emitToUsers(updatedGroup.members.map((member: any) => member._id), 'group:updated', groupPayload);
+
+    res.json(groupPayload);
   } catch (error: any) {
     console.error('Add members error:', error);
     res.status(500).json({ error: error.message || 'Failed to add members' });
   }
 });
 
-// Remove members from group - Only admins can remove members
-router.delete('/groups/:groupId/members/:memberId', async (req: AuthRequest, res: Response) => {
+// Remove a member from group
+router.delete('/groups/:groupId/members/:memberId', requireGroupPermission('remove_members'), async (req: GroupRequest, res: Response) => {
   try {
     const { groupId, memberId } = req.params;
-    const currentUserId = new Types.ObjectId(req.user!.id);
     const groupIdObj = new Types.ObjectId(groupId);
     const memberIdObj = new Types.ObjectId(memberId);
+    const group = req.group;
 
-    const group = await Group.findById(groupIdObj);
-    if (!group) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    const user = await User.findById(currentUserId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    // Check permissions: Allow if user is admin/organization OR if user is admin of the group OR if user is an opportunity mentor OR if user is the group creator
-    const isAdminOrOrganization = user.role === 'admin' || user.role === 'organization';
-    const isGroupAdmin = group.admins.some((adminId: Types.ObjectId) => adminId.toString() === currentUserId.toString());
-    const isGroupCreator = group.createdBy.toString() === currentUserId.toString();
-    
-    // Check if user is an opportunity mentor for this group's opportunity
-    let isOpportunityMentor = false;
-    if (group.opportunityId && user.role === 'volunteer') {
-      const mentorAssignment = await OpportunityMentor.findOne({
-        volunteer: currentUserId,
-        opportunity: group.opportunityId,
-      });
-      isOpportunityMentor = !!mentorAssignment;
-    }
-    
-    if (!isAdminOrOrganization && !isGroupAdmin && !isOpportunityMentor && !isGroupCreator) {
-      return res.status(403).json({ error: 'You don\'t have permission to remove members from this group' });
+    if (group.createdBy.toString() === memberId) {
+      return res.status(400).json({ error: 'Transfer ownership before removing the group owner' });
     }
 
     // Don't allow removing the last admin
@@ -787,6 +1469,7 @@ router.delete('/groups/:groupId/members/:memberId', async (req: AuthRequest, res
     if (group.admins.some((id: Types.ObjectId) => id.toString() === memberId)) {
       group.admins = group.admins.filter((id: Types.ObjectId) => id.toString() !== memberId);
     }
+    group.memberJoinedAt.delete(memberId);
 
     await group.save();
 
@@ -795,61 +1478,545 @@ router.delete('/groups/:groupId/members/:memberId', async (req: AuthRequest, res
       .populate('admins', 'name image role')
       .lean() as any;
 
-    res.json({
+    const groupPayload = {
       ...updatedGroup,
       _id: updatedGroup._id.toString(),
       opportunityId: updatedGroup.opportunityId?.toString(),
-    });
+    };
+
+    emitToUsers(updatedGroup.members.map((member: any) => member._id), 'group:updated', groupPayload);
+    emitToUser(memberIdObj, 'group:removed', { groupId });
+
+    res.json(groupPayload);
   } catch (error: any) {
     console.error('Remove member error:', error);
     res.status(500).json({ error: error.message || 'Failed to remove member' });
   }
 });
 
-// Delete group - Only admins can delete
-router.delete('/groups/:groupId', async (req: AuthRequest, res: Response) => {
+// Make a member a group admin
+router.post('/groups/:groupId/admins', requireGroupPermission('manage_admins'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { memberId } = req.body;
+    const group = req.group;
+
+    if (!memberId || !Types.ObjectId.isValid(memberId)) {
+      return res.status(400).json({ error: 'Member ID is required' });
+    }
+    const memberIdObj = new Types.ObjectId(memberId);
+
+    if (!group.members.some((id: Types.ObjectId) => id.equals(memberIdObj))) {
+      return res.status(400).json({ error: 'Only group members can be made admins' });
+    }
+
+    const result = await Group.updateOne(
+      { _id: group._id, admins: { $ne: memberIdObj } },
+      { $addToSet: { admins: memberIdObj } }
+    );
+    if (result.modifiedCount === 0) {
+      return res.status(409).json({ error: 'This member is already an admin' });
+    }
+
+    const member = await User.findById(memberIdObj).select('name');
+    await postGroupSystemMessage(
+      group,
+      new Types.ObjectId(req.user!.id),
+      'admin_promoted',
+      `${req.user!.name} made ${member?.name || 'a member'} an admin`,
+      memberIdObj
+    );
+
+    const groupPayload = await getGroupPayload(group._id);
+    emitToUsers(group.members, 'group:updated', groupPayload);
+
+    res.json(groupPayload);
+  } catch (error: any) {
+    console.error('Promote admin error:', error);
+    res.status(500).json({ error: error.message || 'Failed to promote member' });
+  }
+});
+
+// Remove a member's admin role (never the owner's, and never the last admin's)
+router.delete('/groups/:groupId/admins/:memberId', requireGroupPermission('manage_admins'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { memberId } = req.params;
+    const group = req.group;
+
+    if (!Types.ObjectId.isValid(memberId)) {
+      return res.status(404).json({ error: 'Admin not found' });
+    }
+    const memberIdObj = new Types.ObjectId(memberId);
+
+    if (!group.admins.some((id: Types.ObjectId) => id.equals(memberIdObj))) {
+      return res.status(404).json({ error: 'This member is not an admin' });
+    }
+    if (group.createdBy.equals(memberIdObj)) {
+      return res.status(400).json({ error: 'The group owner is always an admin. Transfer ownership first.' });
+    }
+
+    // Matching on a second admin keeps concurrent demotions from removing the last one
+    const result = await Group.updateOne(
+      { _id: group._id, admins: memberIdObj, 'admins.1': { $exists: true } },
+      { $pull: { admins: memberIdObj } }
+    );
+    if (result.modifiedCount === 0) {
+      return res.status(400).json({ error: 'Cannot remove the last admin from the group' });
+    }
+
+    const actorIdObj = new Types.ObjectId(req.user!.id);
+    const member = await User.findById(memberIdObj).select('name');
+    const memberName = member?.name || 'a member';
+    await postGroupSystemMessage(
+      group,
+      actorIdObj,
+      'admin_demoted',
+      actorIdObj.equals(memberIdObj)
+        ? `${req.user!.name} is no longer an admin`
+        : `${req.user!.name} removed ${memberName} as admin`,
+      memberIdObj
+    );
+
+    const groupPayload = await getGroupPayload(group._id);
+    emitToUsers(group.members, 'group:updated', groupPayload);
+
+    res.json(groupPayload);
+  } catch (error: any) {
+    console.error('Demote admin error:', error);
+    res.status(500).json({ error: error.message || 'Failed to demote admin' });
+  }
+});
+
+// Hand the group to another member, who also becomes an admin
+router.put('/groups/:groupId/owner', requireGroupPermission('transfer_ownership'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { memberId } = req.body;
+    const group = req.group;
+
+    if (!memberId || !Types.ObjectId.isValid(memberId)) {
+      return res.status(400).json({ error: 'Member ID is required' });
+    }
+    const memberIdObj = new Types.ObjectId(memberId);
+
+    if (!group.members.some((id: Types.ObjectId) => id.equals(memberIdObj))) {
+      return res.status(400).json({ error: 'Ownership can only be transferred to a group member' });
+    }
+    if (group.createdBy.equals(memberIdObj)) {
+      return res.status(400).json({ error: 'This member already owns the group' });
+    }
+
+    // Only succeeds if nobody else changed the owner in the meantime
+    const result = await Group.updateOne(
+      { _id: group._id, createdBy: group.createdBy, members: memberIdObj },
+      { $set: { createdBy: memberIdObj }, $addToSet: { admins: memberIdObj } }
+    );
+    if (result.modifiedCount === 0) {
+      return res.status(409).json({ error: 'The group changed, please try again' });
+    }
+
+    const member = await User.findById(memberIdObj).select('name');
+    await postGroupSystemMessage(
+      group,
+      new Types.ObjectId(req.user!.id),
+      'ownership_transferred',
+      `${req.user!.name} made ${member?.name || 'a member'} the group owner`,
+      memberIdObj
+    );
+
+    const groupPayload = await getGroupPayload(group._id);
+    emitToUsers(group.members, 'group:updated', groupPayload);
+
+    res.json(groupPayload);
+  } catch (error: any) {
+    console.error('Transfer ownership error:', error);
+    res.status(500).json({ error: error.message || 'Failed to transfer ownership' });
+  }
+});
+
+/**
+ * Leave a group. If the leaver is its last admin, the longest-standing
+ * remaining member (by join time; members from the group's creation count
+ * from then) becomes admin; if they own it, ownership passes to the
+ * longest-standing remaining admin. The last member can't leave.
+ *
+ * Each step is a conditional update so concurrent joins, removals and admin
+ * changes aren't overwritten.
+ */
+router.post('/groups/:groupId/leave', requireGroupPermission('leave_group'), async (req: GroupRequest, res: Response) => {
   try {
     const { groupId } = req.params;
-    const currentUserId = new Types.ObjectId(req.user!.id);
-    const groupIdObj = new Types.ObjectId(groupId);
+    const userIdObj = new Types.ObjectId(req.user!.id);
 
-    const group = await Group.findById(groupIdObj);
+    const group = await Group.findOneAndUpdate(
+      { _id: req.group._id, members: userIdObj, 'members.1': { $exists: true } },
+      {
+        $pull: { members: userIdObj, admins: userIdObj },
+        $unset: { [`memberJoinedAt.${userIdObj}`]: 1 },
+      },
+      { new: true }
+    );
     if (!group) {
-      return res.status(404).json({ error: 'Group not found' });
+      const isStillMember = await Group.exists({ _id: req.group._id, members: userIdObj });
+      return isStillMember
+        ? res.status(400).json({ error: 'You are the last member of this group. Delete the group instead.' })
+        : res.status(403).json({ error: 'You are not a member of this group' });
     }
 
-    const user = await User.findById(currentUserId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+    // No more notification preferences (and so no pushes) for a group they're not in
+    await NotificationSetting.deleteMany({ user: userIdObj, targetType: 'group', target: group._id });
+    await postGroupSystemMessage(group, userIdObj, 'member_left', `${req.user!.name} left the group`, userIdObj);
+
+    let promotedAdmin: Types.ObjectId | null = null;
+    if (group.admins.length === 0) {
+      const [candidate] = sortByTenure(group, group.members);
+      // Only if nobody became admin in the meantime
+      const result = await Group.updateOne(
+        { _id: group._id, admins: { $size: 0 }, members: candidate },
+        { $addToSet: { admins: candidate } }
+      );
+      if (result.modifiedCount > 0) promotedAdmin = candidate;
     }
 
-    // Check permissions: Allow if user is admin/organization OR if user is admin of the group OR if user is the group creator OR if user is an opportunity mentor
-    const isAdminOrOrganization = user.role === 'admin' || user.role === 'organization';
-    const isGroupAdmin = group.admins.some((adminId: Types.ObjectId) => adminId.toString() === currentUserId.toString());
-    const isGroupCreator = group.createdBy.toString() === currentUserId.toString();
-    
-    // Check if user is an opportunity mentor for this group's opportunity
-    let isOpportunityMentor = false;
-    if (group.opportunityId && user.role === 'volunteer') {
-      const mentorAssignment = await OpportunityMentor.findOne({
-        volunteer: currentUserId,
-        opportunity: group.opportunityId,
-      });
-      isOpportunityMentor = !!mentorAssignment;
+    let newOwner: Types.ObjectId | null = null;
+    if (group.createdBy.equals(userIdObj)) {
+      // The admins may have changed since the leave; retry if the chosen one goes away
+      for (let attempt = 0; !newOwner && attempt < 3; attempt++) {
+        const current = await Group.findById(group._id);
+        if (!current || !current.createdBy.equals(userIdObj)) break;
+        const [candidate] = sortByTenure(current, current.admins);
+        if (!candidate) break;
+        const result = await Group.updateOne(
+          { _id: group._id, createdBy: userIdObj, admins: candidate },
+          { $set: { createdBy: candidate } }
+        );
+        if (result.modifiedCount > 0) newOwner = candidate;
+      }
     }
-    
-    if (!isAdminOrOrganization && !isGroupAdmin && !isGroupCreator && !isOpportunityMentor) {
-      return res.status(403).json({ 
-        error: 'You don\'t have permission to delete this group. Only group creators, admins, organizations, and opportunity mentors can delete groups.' 
-      });
+
+    const successors = await User.find({
+      _id: { $in: [promotedAdmin, newOwner].filter(Boolean) },
+    }).select('name');
+    const getName = (id: Types.ObjectId) =>
+      successors.find((successor: any) => successor._id.equals(id))?.name || 'A member';
+    if (promotedAdmin) {
+      await postGroupSystemMessage(group, userIdObj, 'admin_promoted', `${getName(promotedAdmin)} is now an admin`, promotedAdmin);
+    }
+    if (newOwner) {
+      await postGroupSystemMessage(
+        group,
+        userIdObj,
+        'ownership_transferred',
+        `${getName(newOwner)} is now the group owner`,
+        newOwner
+      );
+    }
+
+    const groupPayload = await getGroupPayload(group._id);
+    emitToUsers(groupPayload.members.map((member: any) => member._id), 'group:updated', groupPayload);
+    // Also closes the group on the leaver's other devices
+    emitToUser(userIdObj, 'group:removed', { groupId, left: true });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Leave group error:', error);
+    res.status(500).json({ error: error.message || 'Failed to leave group' });
+  }
+});
+
+// Invites for a group that can still be used, newest first
+router.get('/groups/:groupId/invites', requireGroupPermission('manage_invites'), async (req: GroupRequest, res: Response) => {
+  try {
+    const invites = await GroupInvite.find({ group: req.group._id, ...usableInviteFilter() })
+      .populate('createdBy', 'name')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.json(invites.map(formatInvite));
+  } catch (error: any) {
+    console.error('Get group invites error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch invites' });
+  }
+});
+
+// Create an invite code for a group
+router.post('/groups/:groupId/invites', requireGroupPermission('manage_invites'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { expiresInHours = DEFAULT_INVITE_EXPIRY_HOURS, maxUses = null, requiresApproval = false } = req.body;
+
+    if (typeof expiresInHours !== 'number' || !(expiresInHours > 0) || expiresInHours > MAX_INVITE_EXPIRY_HOURS) {
+      return res.status(400).json({ error: `Invites must expire within ${MAX_INVITE_EXPIRY_HOURS / 24} days` });
+    }
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      return res.status(400).json({ error: 'Max uses must be a positive whole number' });
+    }
+    if (typeof requiresApproval !== 'boolean') {
+      return res.status(400).json({ error: 'requiresApproval must be true or false' });
+    }
+
+    let invite: any = null;
+    // Codes are random; on the rare clash with an existing one, draw another
+    for (let attempt = 0; !invite && attempt < 5; attempt++) {
+      try {
+        invite = await GroupInvite.create({
+          group: req.group._id,
+          code: generateInviteCode(),
+          createdBy: new Types.ObjectId(req.user!.id),
+          expiresAt: getInviteExpiry(expiresInHours),
+          maxUses: maxUses ?? undefined,
+          requiresApproval,
+        });
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+      }
+    }
+    if (!invite) {
+      return res.status(500).json({ error: 'Failed to generate an invite code' });
+    }
+
+    await invite.populate('createdBy', 'name');
+    res.status(201).json(formatInvite(invite));
+  } catch (error: any) {
+    console.error('Create group invite error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create invite' });
+  }
+});
+
+// Revoke an invite so it can no longer be used
+router.delete('/groups/:groupId/invites/:inviteId', requireGroupPermission('manage_invites'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { inviteId } = req.params;
+    if (!Types.ObjectId.isValid(inviteId)) {
+      return res.status(404).json({ error: 'Invite not found' });
     }
 
-    // Delete all messages in the group
+    const invite = await GroupInvite.findOneAndUpdate(
+      { _id: inviteId, group: req.group._id, revokedAt: null },
+      { revokedAt: new Date(), revokedBy: new Types.ObjectId(req.user!.id) }
+    );
+    if (!invite) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke group invite error:', error);
+    res.status(500).json({ error: error.message || 'Failed to revoke invite' });
+  }
+});
+
+// What an invite leads to, shown before joining
+router.get('/invites/:code', async (req: AuthRequest, res: Response) => {
+  try {
+    const invite = await GroupInvite.findOne({ code: normalizeInviteCode(req.params.code) }).lean() as any;
+    const group = invite && await Group.findById(invite.group).select('name description avatar members').lean() as any;
+    if (!group) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+
+    const userIdObj = new Types.ObjectId(req.user!.id);
+    const isMember = group.members.some((id: Types.ObjectId) => id.equals(userIdObj));
+    // Members can still open the group from a stale link
+    const inviteError = isMember ? null : getInviteError(invite);
+    if (inviteError) {
+      return res.status(410).json({ error: inviteError });
+    }
+
+    const hasPendingRequest = !!(await GroupJoinRequest.exists({ group: group._id, user: userIdObj, status: 'pending' }));
+
+    res.json({
+      code: invite.code,
+      group: {
+        _id: group._id.toString(),
+        name: group.name,
+        description: group.description,
+        avatar: group.avatar,
+        memberCount: group.members.length,
+      },
+      requiresApproval: invite.requiresApproval,
+      expiresAt: invite.expiresAt,
+      isMember,
+      hasPendingRequest,
+    });
+  } catch (error: any) {
+    console.error('Get invite error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch invite' });
+  }
+});
+
+// Join a group through an invite, or ask to if the invite needs approval
+router.post('/invites/:code/join', async (req: AuthRequest, res: Response) => {
+  try {
+    const invite = await GroupInvite.findOne({ code: normalizeInviteCode(req.params.code) }).lean() as any;
+    const group = invite && await Group.findById(invite.group).select('name members admins createdBy opportunityId') as any;
+    if (!group) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+
+    const groupId = group._id.toString();
+    const userIdObj = new Types.ObjectId(req.user!.id);
+    if (group.members.some((id: Types.ObjectId) => id.equals(userIdObj))) {
+      return res.json({ status: 'joined', groupId });
+    }
+
+    if (invite.requiresApproval) {
+      const pending = await GroupJoinRequest.exists({ group: group._id, user: userIdObj, status: 'pending' });
+      if (pending) {
+        return res.json({ status: 'pending', groupId });
+      }
+    }
+
+    const inviteError = getInviteError(invite);
+    if (inviteError) {
+      return res.status(410).json({ error: inviteError });
+    }
+
+    if (!invite.requiresApproval) {
+      // Count the use atomically so concurrent joins can't go past maxUses
+      const claimed = await GroupInvite.findOneAndUpdate(
+        { _id: invite._id, ...usableInviteFilter() },
+        { $inc: { uses: 1 } }
+      );
+      if (!claimed) {
+        return res.status(410).json({ error: 'This invite is no longer valid' });
+      }
+      await addGroupMember(group._id, userIdObj, userIdObj);
+      return res.json({ status: 'joined', groupId });
+    }
+
+    // Requests only use up the invite once accepted
+    try {
+      await GroupJoinRequest.create({ group: group._id, user: userIdObj, invite: invite._id });
+    } catch (error: any) {
+      // Already asked from another device in the meantime
+      if (error.code === 11000) {
+        return res.json({ status: 'pending', groupId });
+      }
+      throw error;
+    }
+
+    const reviewers = await getJoinRequestReviewers(group);
+    emitToUsers(reviewers, 'group:join_requests', { groupId });
+    const reviewerTokens = await getUsersPushTokens(reviewers);
+    if (reviewerTokens.length > 0) {
+      await sendPushNotification(
+        reviewerTokens,
+        `Request to join ${group.name}`,
+        `${req.user!.name} wants to join the group`,
+        { type: 'group_join_request', groupId }
+      );
+    }
+
+    res.json({ status: 'pending', groupId });
+  } catch (error: any) {
+    console.error('Join group error:', error);
+    res.status(500).json({ error: error.message || 'Failed to join group' });
+  }
+});
+
+// Pending join requests for a group, oldest first
+router.get('/groups/:groupId/join-requests', requireGroupPermission('add_members'), async (req: GroupRequest, res: Response) => {
+  try {
+    const requests = await GroupJoinRequest.find({ group: req.group._id, status: 'pending' })
+      .populate('user', 'name image role')
+      .sort({ createdAt: 1 })
+      .lean() as any[];
+
+    res.json(
+      requests
+        // Skip requests from accounts that no longer exist
+        .filter(request => request.user)
+        .map(request => ({ _id: request._id.toString(), user: request.user, createdAt: request.createdAt }))
+    );
+  } catch (error: any) {
+    console.error('Get join requests error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch join requests' });
+  }
+});
+
+// Accept or reject a pending join request; accepting adds the requester to the group
+const reviewJoinRequest = (decision: 'accept' | 'reject') => async (req: GroupRequest, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    if (!Types.ObjectId.isValid(requestId)) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    const group = req.group;
+    const reviewerId = new Types.ObjectId(req.user!.id);
+    const pending = await GroupJoinRequest.findOne({ _id: requestId, group: group._id, status: 'pending' });
+    if (!pending) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    // An accepted request is a use of its invite, which must still have one left.
+    // The admin decides, so the invite may since have expired or been revoked.
+    if (decision === 'accept') {
+      const claimed = await GroupInvite.findOneAndUpdate(
+        { _id: pending.invite, ...inviteUsesLeftFilter() },
+        { $inc: { uses: 1 } }
+      );
+      if (!claimed) {
+        return res.status(409).json({ error: 'The invite this request came through has no uses left' });
+      }
+    }
+
+    const request = await GroupJoinRequest.findOneAndUpdate(
+      { _id: pending._id, status: 'pending' },
+      { status: decision === 'accept' ? 'accepted' : 'rejected', reviewedBy: reviewerId, reviewedAt: new Date() },
+      { new: true }
+    );
+    if (!request) {
+      // Reviewed by someone else in the meantime; give the use back
+      if (decision === 'accept') {
+        await GroupInvite.updateOne({ _id: pending.invite }, { $inc: { uses: -1 } });
+      }
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+    await notifyJoinRequestsChanged(group);
+
+    if (decision === 'reject') {
+      return res.json({ success: true });
+    }
+
+    const groupPayload = await addGroupMember(group._id, request.user, reviewerId);
+    const requesterTokens = await getUsersPushTokens([request.user]);
+    if (requesterTokens.length > 0) {
+      await sendPushNotification(
+        requesterTokens,
+        group.name,
+        `Your request to join ${group.name} was accepted`,
+        { type: 'group_message', groupId: group._id.toString() }
+      );
+    }
+
+    res.json(groupPayload);
+  } catch (error: any) {
+    console.error('Review join request error:', error);
+    res.status(500).json({ error: error.message || `Failed to ${decision} join request` });
+  }
+};
+
+router.post('/groups/:groupId/join-requests/:requestId/accept', requireGroupPermission('add_members'), reviewJoinRequest('accept'));
+router.post('/groups/:groupId/join-requests/:requestId/reject', requireGroupPermission('add_members'), reviewJoinRequest('reject'));
+
+// Delete group and its messages
+router.delete('/groups/:groupId', requireGroupPermission('delete_group'), async (req: GroupRequest, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const groupIdObj = new Types.ObjectId(groupId);
+    const group = req.group;
+
+    // Delete all messages in the group, and the files attached to them
+    const mediaMessages = await Message.find({ group: groupIdObj, 'media.url': { $exists: true } }).select('media.url').lean() as any[];
     await Message.deleteMany({ group: groupIdObj });
+    mediaMessages.forEach(message => removeStoredFile(message.media.url));
+    await GroupInvite.deleteMany({ group: groupIdObj });
+    await GroupJoinRequest.deleteMany({ group: groupIdObj });
 
     // Delete the group
     await Group.findByIdAndDelete(groupIdObj);
 
+    emitToUsers(group.members, 'group:deleted', { groupId });
+
     res.json({ success: true, message: 'Group deleted successfully' });
   } catch (error: any) {
     console.error('Delete group error:', error);
@@ -1,40 +1,154 @@
 import express, { Response } from 'express';
 import { Types } from 'mongoose';
 import { User } from '../models/User';
+import { Session } from '../models/Session';
+import { Group } from '../models/Group';
+import { NotificationSetting, NotificationTargetType } from '../models/NotificationSetting';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { addPushToken, getPushTokens, removePushTokens } from '../helpers/pushNotifications';
+import { getEffectiveMode } from '../helpers/notificationSettings';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticate);
 
+const NOTIFICATION_MODES = ['all', 'mentions', 'muted'];
+
+/**
+ * Conversation (other user's ID) or group a settings request is about, after
+ * checking the current user can see it. Returns an error message otherwise.
+ */
+const resolveSettingsTarget = async (
+  userId: Types.ObjectId,
+  { conversationId, groupId }: { conversationId?: unknown; groupId?: unknown }
+): Promise<{ targetType: NotificationTargetType; target: Types.ObjectId } | { status: number; error: string }> => {
+  if (typeof groupId === 'string' && groupId) {
+    if (!Types.ObjectId.isValid(groupId)) {
+      return { status: 400, error: 'Invalid group ID' };
+    }
+    const group = await Group.exists({ _id: new Types.ObjectId(groupId), members: userId });
+    if (!group) {
+      return { status: 404, error: 'Group not found or you are not a member' };
+    }
+    return { targetType: 'group', target: new Types.ObjectId(groupId) };
+  }
+
+  if (typeof conversationId === 'string' && conversationId) {
+    if (!Types.ObjectId.isValid(conversationId)) {
+      return { status: 400, error: 'Invalid conversation ID' };
+    }
+    const otherUser = await User.exists({ _id: new Types.ObjectId(conversationId) });
+    if (!otherUser) {
+      return { status: 404, error: 'User not found' };
+    }
+    return { targetType: 'conversation', target: new Types.ObjectId(conversationId) };
+  }
+
+  return { status: 400, error: 'conversationId or groupId is required' };
+};
+
+// Notification settings for one conversation or group
+router.get('/settings', async (req: AuthRequest, res: Response) => {
+  try {
+    const currentUserId = new Types.ObjectId(req.user!.id);
+    const resolved = await resolveSettingsTarget(currentUserId, req.query);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ error: resolved.error });
+    }
+
+    const setting = await NotificationSetting.findOne({ user: currentUserId, ...resolved }).lean<any>();
+    const mode = getEffectiveMode(setting);
+
+    res.json({
+      mode,
+      mutedUntil: mode === 'muted' ? setting?.mutedUntil || null : null,
+    });
+  } catch (error: any) {
+    console.error('Error fetching notification settings:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch notification settings' });
+  }
+});
+
+// Change notification settings for one conversation or group.
+// Body: { conversationId | groupId, mode, muteMinutes? } - muted forever without muteMinutes
+router.put('/settings', async (req: AuthRequest, res: Response) => {
+  try {
+    const currentUserId = new Types.ObjectId(req.user!.id);
+    const { mode, muteMinutes } = req.body;
+
+    if (!NOTIFICATION_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${NOTIFICATION_MODES.join(', ')}` });
+    }
+
+    if (muteMinutes !== undefined && muteMinutes !== null && (!Number.isFinite(muteMinutes) || muteMinutes <= 0)) {
+      return res.status(400).json({ error: 'muteMinutes must be a positive number' });
+    }
+
+    const resolved = await resolveSettingsTarget(currentUserId, req.body);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ error: resolved.error });
+    }
+
+    // Mentions only make sense in groups
+    if (mode === 'mentions' && resolved.targetType !== 'group') {
+      return res.status(400).json({ error: 'Mentions-only is only available for groups' });
+    }
+
+    const filter = { user: currentUserId, ...resolved };
+
+    // `all` is the default, so there is nothing to store
+    if (mode === 'all') {
+      await NotificationSetting.deleteOne(filter);
+      return res.json({ mode: 'all', mutedUntil: null });
+    }
+
+    const mutedUntil = mode === 'muted' && muteMinutes ? new Date(Date.now() + muteMinutes * 60 * 1000) : null;
+    await NotificationSetting.updateOne(
+      filter,
+      mutedUntil
+        ? { $set: { mode, mutedUntil } }
+        : { $set: { mode }, $unset: { mutedUntil: '' } },
+      { upsert: true }
+    );
+
+    res.json({ mode, mutedUntil });
+  } catch (error: any) {
+    console.error('Error updating notification settings:', error);
+    res.status(500).json({ error: error.message || 'Failed to update notification settings' });
+  }
+});
+
 // Register device token for push notifications
 router.post('/register-token', async (req: AuthRequest, res: Response) => {
   try {
     const currentUserId = new Types.ObjectId(req.user!.id);
-    const { expoPushToken } = req.body;
+    const { expoPushToken, platform } = req.body;
+    const deviceId = req.get('x-device-id') || undefined;
 
     if (!expoPushToken) {
       return res.status(400).json({ error: 'Expo push token is required' });
     }
 
-    const user = await User.findById(currentUserId);
+    const user = await User.findById(currentUserId).select('name email');
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Store the push token in user document
-    // You might want to add a pushTokens array field to your User model
-    // For now, we'll store it in a simple way
-    const updatedUser = await User.findByIdAndUpdate(
-      currentUserId,
-      { $set: { expoPushToken } },
-      { new: true } // Return updated document
-    );
+    // Each device keeps its own entry, so a second phone doesn't replace the first
+    await addPushToken(currentUserId, {
+      token: expoPushToken,
+      platform: typeof platform === 'string' ? platform : undefined,
+      deviceId,
+    });
+
+    // Remember which device the token belongs to, so signing it out stops its notifications
+    if (req.user!.sessionId) {
+      await Session.updateOne({ _id: req.user!.sessionId }, { $set: { pushToken: expoPushToken } });
+    }
 
     console.log(`✅ Push token registered for user: ${user.name || user.email}`);
     console.log(`📱 Token: ${expoPushToken.substring(0, 30)}...`);
-    console.log(`💾 Token saved to database: ${updatedUser?.expoPushToken ? 'YES' : 'NO'}`);
     console.log(`🔍 User ID: ${currentUserId.toString()}`);
 
     res.json({ success: true, message: 'Device token registered successfully' });
@@ -44,15 +158,23 @@ router.post('/register-token', async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Unregister device token
+// Unregister this device's token; the user's other devices keep theirs
 router.post('/unregister-token', async (req: AuthRequest, res: Response) => {
   try {
     const currentUserId = new Types.ObjectId(req.user!.id);
+    const session = req.user!.sessionId
+      ? await Session.findById(req.user!.sessionId).select('pushToken deviceId')
+      : null;
 
-    await User.findByIdAndUpdate(currentUserId, {
-      $unset: { expoPushToken: '' },
+    await removePushTokens(currentUserId, {
+      token: req.body?.expoPushToken || session?.pushToken,
+      deviceId: req.get('x-device-id') || session?.deviceId,
     });
 
+    if (session) {
+      await Session.updateOne({ _id: session._id }, { $unset: { pushToken: '' } });
+    }
+
     res.json({ success: true, message: 'Device token unregistered successfully' });
   } catch (error: any) {
     console.error('Error unregistering device token:', error);
@@ -64,13 +186,14 @@ router.post('/unregister-token', async (req: AuthRequest, res: Response) => {
 router.post('/test', async (req: AuthRequest, res: Response) => {
   try {
     const currentUserId = new Types.ObjectId(req.user!.id);
-    const user = await User.findById(currentUserId).select('expoPushToken name');
+    const user = await User.findById(currentUserId).select('pushTokens expoPushToken name');
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    if (!user.expoPushToken) {
+    const pushTokens = getPushTokens(user);
+    if (pushTokens.length === 0) {
       return res.status(400).json({ 
         error: 'No push token registered for this user',
         message: 'Please log in again to register your push token'
@@ -80,7 +203,7 @@ router.post('/test', async (req: AuthRequest, res: Response) => {
     const { sendPushNotification } = require('../helpers/pushNotifications');
     
     await sendPushNotification(
-      user.expoPushToken,
+      pushTokens,
       'Test Notification',
       'This is a test push notification from iLeap!',
       { type: 'test' }
@@ -89,7 +212,7 @@ router.post('/test', async (req: AuthRequest, res: Response) => {
     res.json({ 
       success: true, 
       message: 'Test notification sent',
-      token: user.expoPushToken.substring(0, 30) + '...'
+      devices: pushTokens.length
     });
   } catch (error: any) {
     console.error('Error sending test notification:', error);
@@ -2,6 +2,8 @@ import express, { Response } from 'express';
 import { Types } from 'mongoose';
 import { User } from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { isOnline } from '../helpers/presence';
+import { formatQuietHours, isValidTimeOfDay, isValidTimeZone } from '../helpers/quietHours';
 
 const router = express.Router();
 
@@ -70,5 +72,115 @@ router.get('/available', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Online status and last seen time for several users (`ids` is comma-separated)
+router.get('/presence', async (req: AuthRequest, res: Response) => {
+  try {
+    const ids = String(req.query.ids || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => Types.ObjectId.isValid(id));
+
+    if (ids.length === 0) {
+      return res.status(400).json({ error: 'At least one user ID is required' });
+    }
+    if (ids.length > 100) {
+      return res.status(400).json({ error: 'Presence can be requested for at most 100 users at a time' });
+    }
+
+    const users = await User.find({ _id: { $in: ids } })
+      .select('last_seen hide_last_seen')
+      .lean();
+
+    const presence = users.map((user: any) => {
+      const userId = user._id.toString();
+      // Users who hide their last seen time also appear offline
+      if (user.hide_last_seen) {
+        return { userId, isOnline: false, lastSeen: null };
+      }
+      return {
+        userId,
+        isOnline: isOnline(userId),
+        lastSeen: user.last_seen || null,
+      };
+    });
+
+    res.json(presence);
+  } catch (error: any) {
+    console.error('Get presence error:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch presence' });
+  }
+});
+
+// Update the current user's privacy and notification settings; only the fields sent are changed
+router.patch('/me', async (req: AuthRequest, res: Response) => {
+  try {
+    const { hide_last_seen, timezone, quiet_hours } = req.body;
+    const updates: any = {};
+
+    if (hide_last_seen !== undefined) {
+      if (typeof hide_last_seen !== 'boolean') {
+        return res.status(400).json({ error: 'hide_last_seen must be a boolean' });
+      }
+      updates.hide_last_seen = hide_last_seen;
+    }
+
+    if (timezone !== undefined) {
+      if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+        return res.status(400).json({ error: 'timezone must be an IANA timezone such as "Europe/London"' });
+      }
+      updates.timezone = timezone;
+    }
+
+    if (quiet_hours !== undefined) {
+      const { enabled, start, end, delivery } = quiet_hours || {};
+      if (enabled !== undefined) {
+        if (typeof enabled !== 'boolean') {
+          return res.status(400).json({ error: 'quiet_hours.enabled must be a boolean' });
+        }
+        updates['quiet_hours.enabled'] = enabled;
+      }
+      if (start !== undefined || end !== undefined) {
+        if (
+          (start !== undefined && (typeof start !== 'string' || !isValidTimeOfDay(start))) ||
+          (end !== undefined && (typeof end !== 'string' || !isValidTimeOfDay(end)))
+        ) {
+          return res.status(400).json({ error: 'quiet_hours.start and quiet_hours.end must be times like "22:00"' });
+        }
+        if (start !== undefined) updates['quiet_hours.start'] = start;
+        if (end !== undefined) updates['quiet_hours.end'] = end;
+      }
+      if (delivery !== undefined) {
+        if (delivery !== 'silent' && delivery !== 'summary') {
+          return res.status(400).json({ error: 'quiet_hours.delivery must be "silent" or "summary"' });
+        }
+        updates['quiet_hours.delivery'] = delivery;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'No settings to update' });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user!.id,
+      { $set: updates },
+      { new: true }
+    ).select('hide_last_seen timezone quiet_hours');
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      hide_last_seen: !!user.hide_last_seen,
+      timezone: user.timezone || null,
+      quiet_hours: formatQuietHours(user.quiet_hours),
+    });
+  } catch (error: any) {
+    console.error('Update user settings error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update settings' });
+  }
+});
+
 export default router;
 
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { Menu, X, Home, Settings } from 'lucide-react-native';
+import { Menu, X, Home, Settings, Search, Bell, BellOff } from 'lucide-react-native';
 
 interface HeaderProps {
   title?: string;
@@ -10,6 +10,10 @@ interface HeaderProps {
   showHomeButton?: boolean;
   onSettingsPress?: () => void;
   showSettingsButton?: boolean;
+  onSearchPress?: () => void;
+  onNotificationsPress?: () => void;
+  // Shows a crossed-out bell on the notifications button
+  isMuted?: boolean;
   unreadCount?: number;
 }
 
@@ -21,6 +25,9 @@ export default function Header({
   showHomeButton = true,
   onSettingsPress,
   showSettingsButton = false,
+  onSearchPress,
+  onNotificationsPress,
+  isMuted = false,
   unreadCount = 0,
 }: HeaderProps) {
   return (
@@ -45,6 +52,24 @@ export default function Header({
       </TouchableOpacity>
       <Text style={styles.title}>{title}</Text>
       <View style={styles.rightButtons}>
+        {onNotificationsPress ? (
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={onNotificationsPress}
+            accessibilityLabel="Notification settings"
+          >
+            {isMuted ? <BellOff size={22} color="#fff" /> : <Bell size={22} color="#fff" />}
+          </TouchableOpacity>
+        ) : null}
+        {onSearchPress ? (
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={onSearchPress}
+            accessibilityLabel="Search messages"
+          >
+            <Search size={22} color="#fff" />
+          </TouchableOpacity>
+        ) : null}
         {showSettingsButton && onSettingsPress ? (
           <TouchableOpacity
             style={styles.settingsButton}
@@ -63,7 +88,7 @@ export default function Header({
             <Home size={24} color="#fff" />
           </TouchableOpacity>
         ) : (
-          !showSettingsButton && <View style={styles.placeholder} />
+          !showSettingsButton && !onSearchPress && <View style={styles.placeholder} />
         )}
       </View>
     </View>
@@ -124,6 +149,12 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  searchButton: {
+    padding: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
   settingsButton: {
     padding: 8,
     justifyContent: 'center',
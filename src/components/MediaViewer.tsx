@@ -0,0 +1,252 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  GestureResponderEvent,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as MediaLibrary from 'expo-media-library';
+import { X, Share2, Download } from 'lucide-react-native';
+import { Message } from '../types/message';
+
+type Media = NonNullable<Message['media']>;
+
+interface MediaViewerProps {
+  media: Media | null;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+
+// Copy of the attachment in the cache directory; saving and sharing need a local file
+const downloadMedia = async (media: Media) => {
+  const urlName = media.url.split('?')[0].split('/').pop();
+  const fileName = media.fileName || urlName || `attachment.${media.type === 'video' ? 'mp4' : 'jpg'}`;
+  return File.downloadFileAsync(media.url, new File(Paths.cache, fileName), { idempotent: true });
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const getTouchDistance = (event: GestureResponderEvent) => {
+  const [first, second] = event.nativeEvent.touches;
+  return Math.hypot(first.pageX - second.pageX, first.pageY - second.pageY);
+};
+
+// Image with pinch-to-zoom and drag-to-pan while zoomed in
+function ZoomableImage({ uri }: { uri: string }) {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translate = useRef(new Animated.ValueXY({ x: 0, y: 0 })).current;
+  const gesture = useRef({
+    startDistance: 0,
+    startScale: 1,
+    scale: 1,
+    offsetX: 0,
+    offsetY: 0,
+    x: 0,
+    y: 0,
+  }).current;
+
+  const reset = () => {
+    gesture.scale = 1;
+    gesture.offsetX = gesture.offsetY = gesture.x = gesture.y = 0;
+    Animated.parallel([
+      Animated.spring(scale, { toValue: 1, useNativeDriver: true }),
+      Animated.spring(translate, { toValue: { x: 0, y: 0 }, useNativeDriver: true }),
+    ]).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        gesture.startDistance = 0;
+      },
+      onPanResponderMove: (event, state) => {
+        const touches = event.nativeEvent.touches;
+        if (touches.length === 2) {
+          const distance = getTouchDistance(event);
+          if (!gesture.startDistance) {
+            gesture.startDistance = distance;
+            gesture.startScale = gesture.scale;
+            return;
+          }
+          gesture.scale = clamp(gesture.startScale * (distance / gesture.startDistance), MIN_SCALE, MAX_SCALE);
+          scale.setValue(gesture.scale);
+        } else if (touches.length === 1 && gesture.scale > 1 && !gesture.startDistance) {
+          gesture.x = gesture.offsetX + state.dx;
+          gesture.y = gesture.offsetY + state.dy;
+          translate.setValue({ x: gesture.x, y: gesture.y });
+        }
+      },
+      onPanResponderRelease: () => {
+        if (gesture.scale <= MIN_SCALE) {
+          reset();
+          return;
+        }
+        gesture.offsetX = gesture.x;
+        gesture.offsetY = gesture.y;
+        gesture.startDistance = 0;
+      },
+    })
+  ).current;
+
+  return (
+    <View style={styles.mediaContainer} {...panResponder.panHandlers}>
+      <Animated.Image
+        source={{ uri }}
+        resizeMode="contain"
+        style={[
+          styles.media,
+          {
+            transform: [
+              { translateX: translate.x },
+              { translateY: translate.y },
+              { scale },
+            ],
+          },
+        ]}
+      />
+    </View>
+  );
+}
+
+function VideoPlayerView({ uri }: { uri: string }) {
+  const player = useVideoPlayer(uri, (videoPlayer) => {
+    videoPlayer.play();
+  });
+
+  return (
+    <View style={styles.mediaContainer}>
+      <VideoView player={player} style={styles.media} nativeControls allowsFullscreen contentFit="contain" />
+    </View>
+  );
+}
+
+// Full-screen viewer for message attachments
+export default function MediaViewer({ media, onClose }: MediaViewerProps) {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSave = async () => {
+    if (!media) return;
+    try {
+      setIsBusy(true);
+      const permission = await MediaLibrary.requestPermissionsAsync(true);
+      if (!permission.granted) {
+        Alert.alert('Permission Needed', 'Allow iLeap to add to your photos to save this file.');
+        return;
+      }
+      const file = await downloadMedia(media);
+      await MediaLibrary.saveToLibraryAsync(file.uri);
+      Alert.alert('Saved', media.type === 'video' ? 'Video saved to your gallery' : 'Photo saved to your gallery');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not save this file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!media) return;
+    try {
+      setIsBusy(true);
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Error', 'Sharing is not available on this device');
+        return;
+      }
+      const file = await downloadMedia(media);
+      await Sharing.shareAsync(file.uri, { mimeType: media.mimeType });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not share this file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!media}
+      animationType="fade"
+      transparent={false}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close viewer"
+          >
+            <X size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.toolbarActions}>
+            {isBusy && <ActivityIndicator color="#fff" />}
+            <TouchableOpacity
+              style={styles.toolbarButton}
+              onPress={handleSave}
+              disabled={isBusy}
+              accessibilityRole="button"
+              accessibilityLabel="Save to gallery"
+            >
+              <Download size={22} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.toolbarButton}
+              onPress={handleShare}
+              disabled={isBusy}
+              accessibilityRole="button"
+              accessibilityLabel="Share"
+            >
+              <Share2 size={22} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        </View>
+        {media?.type === 'image' && <ZoomableImage uri={media.url} />}
+        {media?.type === 'video' && <VideoPlayerView uri={media.url} />}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  toolbarActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolbarButton: {
+    padding: 8,
+  },
+  mediaContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  media: {
+    width: '100%',
+    height: '100%',
+  },
+});
@@ -0,0 +1,99 @@
+import React, { ReactNode } from 'react';
+import { View, Text, Modal, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../context/ThemeContext';
+
+export interface MessageAction {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+}
+
+interface MessageActionsSheetProps {
+  visible: boolean;
+  actions: MessageAction[];
+  onClose: () => void;
+  children?: ReactNode;
+}
+
+// Bottom sheet shown when long-pressing a message
+export default function MessageActionsSheet({ visible, actions, onClose, children }: MessageActionsSheetProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="Message actions"
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+        accessibilityLabel="Close message actions"
+        accessibilityRole="button"
+      >
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+          <SafeAreaView style={[styles.sheet, { backgroundColor: theme.colors.card }]} edges={['bottom']}>
+            {children}
+            {actions.map((action) => (
+              <TouchableOpacity
+                key={action.label}
+                style={[styles.action, { borderBottomColor: theme.colors.border }]}
+                onPress={() => {
+                  onClose();
+                  action.onPress();
+                }}
+                accessibilityRole="button"
+              >
+                <Text
+                  style={[
+                    styles.actionText,
+                    { color: action.destructive ? theme.colors.error : theme.colors.text },
+                  ]}
+                >
+                  {action.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.action} onPress={onClose} accessibilityRole="button">
+              <Text style={[styles.actionText, styles.cancelText, { color: theme.colors.textSecondary }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+          </SafeAreaView>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+    overflow: 'hidden',
+  },
+  action: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'transparent',
+  },
+  actionText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  cancelText: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { View, Image, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { Play } from 'lucide-react-native';
+import { Message } from '../types/message';
+
+interface MessageMediaProps {
+  media: NonNullable<Message['media']>;
+  onPress: () => void;
+}
+
+// Inline preview of an image or video attachment inside a message bubble
+export default function MessageMedia({ media, onPress }: MessageMediaProps) {
+  const [posterUri, setPosterUri] = useState<string | null>(null);
+  const [isLoadingPoster, setIsLoadingPoster] = useState(media.type === 'video');
+
+  useEffect(() => {
+    if (media.type !== 'video') return;
+
+    let isMounted = true;
+    VideoThumbnails.getThumbnailAsync(media.url, { time: 1000 })
+      .then(({ uri }) => {
+        if (isMounted) setPosterUri(uri);
+      })
+      .catch((error) => {
+        console.warn('⚠️ Could not generate video poster:', error);
+      })
+      .finally(() => {
+        if (isMounted) setIsLoadingPoster(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [media.url, media.type]);
+
+  const previewUri = media.type === 'image' ? media.url : posterUri;
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={onPress}
+      activeOpacity={0.8}
+      accessibilityRole="imagebutton"
+      accessibilityLabel={media.type === 'video' ? 'Play video' : 'View image'}
+    >
+      {previewUri ? (
+        <Image source={{ uri: previewUri }} style={styles.preview} resizeMode="cover" />
+      ) : (
+        <View style={[styles.preview, styles.placeholder]}>
+          {isLoadingPoster && <ActivityIndicator color="#fff" />}
+        </View>
+      )}
+      {media.type === 'video' && (
+        <View style={styles.playOverlay}>
+          <View style={styles.playButton}>
+            <Play size={24} color="#fff" fill="#fff" />
+          </View>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  preview: {
+    width: 220,
+    height: 220,
+  },
+  placeholder: {
+    backgroundColor: '#2d3436',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
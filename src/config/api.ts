@@ -1,9 +1,110 @@
 import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
 import { API_BASE_URL } from './constants';
+import { getDeviceId, getDeviceName } from './device';
+import {
+  DeviceSession,
+  MediaUpload,
+  MessageSearchFilters,
+  NotificationMode,
+  NotificationSettings,
+  QuietHours,
+  GroupAction,
+  GroupInvite,
+  GroupJoinRequest,
+  InvitePreview,
+  JoinGroupResult,
+} from '../types/message';
 
 const BASE_URL = API_BASE_URL;
 
+// Uploads can take much longer than regular requests on mobile networks
+const UPLOAD_TIMEOUT = 60000;
+
+// Multipart body for a media message; text fields go first so the server sees them with the file
+const buildMediaFormData = (file: MediaUpload, fields: Record<string, string | undefined>) => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value) formData.append(key, value);
+  });
+  formData.append('file', {
+    uri: file.uri,
+    name: file.name,
+    type: file.type,
+  } as any);
+  return formData;
+};
+
+// Convert axios upload progress events to a 0..1 fraction
+const toProgressHandler = (onProgress?: (progress: number) => void) =>
+  onProgress
+    ? (event: { loaded: number; total?: number }) => {
+        if (event.total) onProgress(event.loaded / event.total);
+      }
+    : undefined;
+
+// Auth routes that don't take an access token; a 401 from them is never retried
+const PUBLIC_AUTH_ROUTES = /^\/api\/auth\/(signin|signup|verify|password|refresh)/;
+
+// Notified when the refresh token is rejected and the user has to sign in again
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Refresh in progress; concurrent requests wait for it instead of starting their own
+let refreshPromise: Promise<string | null> | null = null;
+
+// Persist the tokens and user from a signin, verify or reset response
+const storeSession = async (data: { token: string; refreshToken?: string; user?: any }) => {
+  await AsyncStorage.setItem('auth_token', data.token);
+  if (data.refreshToken) {
+    await AsyncStorage.setItem('refresh_token', data.refreshToken);
+  }
+  if (data.user) {
+    await AsyncStorage.setItem('user', JSON.stringify(data.user));
+  }
+};
+
+const clearStoredSession = async () => {
+  await AsyncStorage.multiRemove(['auth_token', 'refresh_token', 'user', 'session']);
+};
+
+/**
+ * Exchange the stored refresh token for a new access token. Returns null when
+ * there is no usable session; a rejected refresh token ends the session.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      try {
+        const refreshToken = await AsyncStorage.getItem('refresh_token');
+        if (!refreshToken) return null;
+
+        // Plain axios so the refresh call skips the interceptors below
+        const response = await axios.post(`${BASE_URL}/api/auth/refresh`, { refreshToken }, { timeout: 10000 });
+        await storeSession(response.data);
+        return response.data.token;
+      } catch (error: any) {
+        // Network errors keep the session so the next request can try again
+        if (error.response?.status === 401 || error.response?.status === 400) {
+          console.log('🔒 Session expired, signing out');
+          await clearStoredSession();
+          sessionExpiredHandler?.();
+        } else {
+          console.error('Error refreshing access token:', error.message);
+        }
+        return null;
+      } finally {
+        refreshPromise = null;
+      }
+    })();
+  }
+  return refreshPromise;
+};
+
 export const apiClient = axios.create({
   baseURL: BASE_URL,
   headers: {
@@ -19,6 +120,10 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Lets the server key sessions per device for the Devices list
+    config.headers['X-Device-Id'] = await getDeviceId();
+    config.headers['X-Device-Name'] = getDeviceName();
+    config.headers['X-Device-Platform'] = Platform.OS;
     return config;
   },
   (error) => {
@@ -31,7 +136,23 @@ apiClient.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
+  async (error) => {
+    // Expired access token: refresh once and replay the request
+    const originalRequest = error.config;
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retried &&
+      !PUBLIC_AUTH_ROUTES.test(originalRequest.url || '')
+    ) {
+      originalRequest._retried = true;
+      const token = await refreshAccessToken();
+      if (token) {
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return apiClient(originalRequest);
+      }
+    }
+
     // Enhanced error logging for debugging
     if (error.code === 'ECONNABORTED') {
       console.error('⏱️ Request timeout - server took too long to respond');
@@ -64,9 +185,7 @@ export const authAPI = {
       });
 
       if (response.data.token) {
-        // Store JWT token
-        await AsyncStorage.setItem('auth_token', response.data.token);
-        await AsyncStorage.setItem('user', JSON.stringify(response.data.user));
+        await storeSession(response.data);
         return response.data;
       }
 
@@ -76,26 +195,131 @@ export const authAPI = {
       throw new Error(errorMessage);
     }
   },
-  
-  getCurrentUser: async () => {
+
+  signUp: async (name: string, email: string, password: string) => {
     try {
-      const token = await AsyncStorage.getItem('auth_token');
-      if (!token) return null;
+      const response = await apiClient.post('/api/auth/signup', {
+        name,
+        email,
+        password,
+      });
+      return response.data;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || error.message || 'Sign up failed';
+      throw new Error(errorMessage);
+    }
+  },
+
+  // Confirm the emailed code; the server signs the user in on success
+  verifyEmail: async (email: string, code: string) => {
+    try {
+      const response = await apiClient.post('/api/auth/verify', {
+        email,
+        code,
+      });
+
+      if (response.data.token) {
+        await storeSession(response.data);
+        return response.data;
+      }
 
-      const response = await apiClient.get('/api/auth/me');
+      throw new Error('Verification failed - no token received');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || error.message || 'Verification failed';
+      throw new Error(errorMessage);
+    }
+  },
+
+  resendVerification: async (email: string) => {
+    try {
+      const response = await apiClient.post('/api/auth/verify/resend', { email });
       return response.data;
     } catch (error: any) {
-      // Token might be invalid, clear it
-      await AsyncStorage.removeItem('auth_token');
-      await AsyncStorage.removeItem('user');
-      return null;
+      const errorMessage = error.response?.data?.error || error.message || 'Failed to resend code';
+      throw new Error(errorMessage);
+    }
+  },
+
+  requestPasswordReset: async (email: string) => {
+    try {
+      const response = await apiClient.post('/api/auth/password/forgot', { email });
+      return response.data;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || error.message || 'Failed to request password reset';
+      throw new Error(errorMessage);
+    }
+  },
+
+  // Set a new password with the emailed code; the server signs the user in on success
+  resetPassword: async (email: string, code: string, password: string) => {
+    try {
+      const response = await apiClient.post('/api/auth/password/reset', {
+        email,
+        code,
+        password,
+      });
+
+      if (response.data.token) {
+        await storeSession(response.data);
+        return response.data;
+      }
+
+      throw new Error('Password reset failed - no token received');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || error.message || 'Failed to reset password';
+      throw new Error(errorMessage);
     }
   },
   
+  // Expired access tokens are refreshed by the response interceptor; errors
+  // (e.g. offline) are thrown so the caller can keep the stored session
+  getCurrentUser: async () => {
+    const token = await AsyncStorage.getItem('auth_token');
+    if (!token) return null;
+
+    const response = await apiClient.get('/api/auth/me');
+    return response.data;
+  },
+  
+  // End this device's session on the server too; local sign-out happens even if that fails
   signOut: async () => {
-    await AsyncStorage.removeItem('auth_token');
-    await AsyncStorage.removeItem('user');
-    await AsyncStorage.removeItem('session');
+    try {
+      if (await AsyncStorage.getItem('auth_token')) {
+        await apiClient.post('/api/auth/signout');
+      }
+    } catch (error: any) {
+      console.error('Error ending server session:', error.message);
+    } finally {
+      await clearStoredSession();
+    }
+  },
+
+  getSessions: async (): Promise<DeviceSession[]> => {
+    try {
+      const response = await apiClient.get('/api/auth/sessions');
+      return response.data || [];
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  revokeSession: async (sessionId: string) => {
+    try {
+      const response = await apiClient.delete(`/api/auth/sessions/${sessionId}`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  signOutEverywhere: async () => {
+    try {
+      const response = await apiClient.delete('/api/auth/sessions');
+      await clearStoredSession();
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
   },
 };
 
@@ -121,11 +345,12 @@ export const messagesAPI = {
     }
   },
   
-  sendMessage: async (receiverId: string, content: string) => {
+  sendMessage: async (receiverId: string, content: string, replyToId?: string) => {
     try {
       const response = await apiClient.post('/api/messages/messages', {
         receiverId,
         content,
+        replyTo: replyToId,
       });
       return response.data;
     } catch (error: any) {
@@ -133,6 +358,87 @@ export const messagesAPI = {
     }
   },
   
+  sendMediaMessage: async (
+    receiverId: string,
+    file: MediaUpload,
+    caption?: string,
+    onProgress?: (progress: number) => void,
+    replyToId?: string
+  ) => {
+    try {
+      const response = await apiClient.post(
+        '/api/messages/messages/media',
+        buildMediaFormData(file, { receiverId, content: caption, replyTo: replyToId }),
+        {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          timeout: UPLOAD_TIMEOUT,
+          onUploadProgress: toProgressHandler(onProgress),
+        }
+      );
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+  
+  editMessage: async (messageId: string, content: string) => {
+    try {
+      const response = await apiClient.put(`/api/messages/messages/${messageId}`, {
+        content,
+      });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  deleteMessage: async (messageId: string) => {
+    try {
+      const response = await apiClient.delete(`/api/messages/messages/${messageId}`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  addReaction: async (messageId: string, emoji: string) => {
+    try {
+      const response = await apiClient.post(`/api/messages/messages/${messageId}/reactions`, {
+        emoji,
+      });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  removeReaction: async (messageId: string, emoji: string) => {
+    try {
+      const response = await apiClient.delete(
+        `/api/messages/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`
+      );
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+  
+  searchMessages: async (
+    query: string,
+    filters: MessageSearchFilters = {},
+    page: number = 1,
+    limit: number = 20
+  ) => {
+    try {
+      const response = await apiClient.get('/api/messages/search', {
+        params: { q: query, ...filters, page, limit },
+      });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
   markAsRead: async (conversationId: string) => {
     try {
       const response = await apiClient.post(`/api/messages/conversations/${conversationId}/read`);
@@ -142,6 +448,15 @@ export const messagesAPI = {
     }
   },
   
+  markGroupAsRead: async (groupId: string) => {
+    try {
+      const response = await apiClient.post(`/api/messages/groups/${groupId}/read`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+  
   getGroups: async () => {
     try {
       const response = await apiClient.get('/api/messages/groups');
@@ -162,10 +477,20 @@ export const messagesAPI = {
     }
   },
   
-  sendGroupMessage: async (groupId: string, content: string) => {
+  getMessageReaders: async (groupId: string, messageId: string) => {
+    try {
+      const response = await apiClient.get(`/api/messages/groups/${groupId}/messages/${messageId}/readers`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  sendGroupMessage: async (groupId: string, content: string, replyToId?: string) => {
     try {
       const response = await apiClient.post(`/api/messages/groups/${groupId}/messages`, {
         content,
+        replyTo: replyToId,
       });
       return response.data;
     } catch (error: any) {
@@ -173,6 +498,29 @@ export const messagesAPI = {
     }
   },
 
+  sendGroupMediaMessage: async (
+    groupId: string,
+    file: MediaUpload,
+    caption?: string,
+    onProgress?: (progress: number) => void,
+    replyToId?: string
+  ) => {
+    try {
+      const response = await apiClient.post(
+        `/api/messages/groups/${groupId}/messages/media`,
+        buildMediaFormData(file, { content: caption, replyTo: replyToId }),
+        {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          timeout: UPLOAD_TIMEOUT,
+          onUploadProgress: toProgressHandler(onProgress),
+        }
+      );
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
   createGroup: async (name: string, description: string, memberIds: string[], isOrganizationGroup?: boolean, opportunityId?: string) => {
     try {
       const response = await apiClient.post('/api/messages/groups', {
@@ -220,6 +568,118 @@ export const messagesAPI = {
     }
   },
 
+  promoteGroupAdmin: async (groupId: string, memberId: string) => {
+    try {
+      const response = await apiClient.post(`/api/messages/groups/${groupId}/admins`, { memberId });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  demoteGroupAdmin: async (groupId: string, memberId: string) => {
+    try {
+      const response = await apiClient.delete(`/api/messages/groups/${groupId}/admins/${memberId}`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  transferGroupOwnership: async (groupId: string, memberId: string) => {
+    try {
+      const response = await apiClient.put(`/api/messages/groups/${groupId}/owner`, { memberId });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  leaveGroup: async (groupId: string) => {
+    try {
+      const response = await apiClient.post(`/api/messages/groups/${groupId}/leave`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  getGroupInvites: async (groupId: string): Promise<GroupInvite[]> => {
+    try {
+      const response = await apiClient.get(`/api/messages/groups/${groupId}/invites`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  // maxUses null means unlimited
+  createGroupInvite: async (
+    groupId: string,
+    options: { expiresInHours?: number; maxUses?: number | null; requiresApproval?: boolean }
+  ): Promise<GroupInvite> => {
+    try {
+      const response = await apiClient.post(`/api/messages/groups/${groupId}/invites`, options);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  revokeGroupInvite: async (groupId: string, inviteId: string) => {
+    try {
+      const response = await apiClient.delete(`/api/messages/groups/${groupId}/invites/${inviteId}`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  getInvitePreview: async (code: string): Promise<InvitePreview> => {
+    try {
+      const response = await apiClient.get(`/api/messages/invites/${encodeURIComponent(code)}`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  joinGroupWithInvite: async (code: string): Promise<JoinGroupResult> => {
+    try {
+      const response = await apiClient.post(`/api/messages/invites/${encodeURIComponent(code)}/join`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  getGroupJoinRequests: async (groupId: string): Promise<GroupJoinRequest[]> => {
+    try {
+      const response = await apiClient.get(`/api/messages/groups/${groupId}/join-requests`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  reviewGroupJoinRequest: async (groupId: string, requestId: string, decision: 'accept' | 'reject') => {
+    try {
+      const response = await apiClient.post(`/api/messages/groups/${groupId}/join-requests/${requestId}/${decision}`);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  getGroupPermissions: async (groupId: string): Promise<GroupAction[]> => {
+    try {
+      const response = await apiClient.get(`/api/messages/groups/${groupId}/permissions`);
+      return response.data.actions || [];
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
   deleteGroup: async (groupId: string) => {
     try {
       const response = await apiClient.delete(`/api/messages/groups/${groupId}`);
@@ -251,6 +711,30 @@ export const usersAPI = {
       throw error;
     }
   },
+
+  getPresence: async (userIds: string[]) => {
+    try {
+      const response = await apiClient.get('/api/users/presence', {
+        params: { ids: userIds.join(',') },
+      });
+      return response.data || [];
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  updateSettings: async (settings: {
+    hide_last_seen?: boolean;
+    timezone?: string;
+    quiet_hours?: Partial<QuietHours>;
+  }) => {
+    try {
+      const response = await apiClient.patch('/api/users/me', settings);
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
 };
 
 // Notifications endpoints
@@ -259,6 +743,35 @@ export const notificationsAPI = {
     try {
       const response = await apiClient.post('/api/notifications/register-token', {
         expoPushToken,
+        platform: Platform.OS,
+      });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  // Settings for a direct conversation (other user's ID) or a group
+  getSettings: async (target: { conversationId?: string; groupId?: string }): Promise<NotificationSettings> => {
+    try {
+      const response = await apiClient.get('/api/notifications/settings', { params: target });
+      return response.data;
+    } catch (error: any) {
+      throw error;
+    }
+  },
+
+  // Omit muteMinutes to mute forever
+  updateSettings: async (
+    target: { conversationId?: string; groupId?: string },
+    mode: NotificationMode,
+    muteMinutes?: number
+  ): Promise<NotificationSettings> => {
+    try {
+      const response = await apiClient.put('/api/notifications/settings', {
+        ...target,
+        mode,
+        muteMinutes,
       });
       return response.data;
     } catch (error: any) {
@@ -266,9 +779,10 @@ export const notificationsAPI = {
     }
   },
 
-  unregisterDeviceToken: async () => {
+  // Removes only this device's token; the server matches it by the X-Device-Id header
+  unregisterDeviceToken: async (expoPushToken?: string) => {
     try {
-      const response = await apiClient.post('/api/notifications/unregister-token');
+      const response = await apiClient.post('/api/notifications/unregister-token', { expoPushToken });
       return response.data;
     } catch (error: any) {
       throw error;
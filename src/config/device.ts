@@ -0,0 +1,40 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DEVICE_ID_KEY = 'device_id';
+
+let cachedDeviceId: string | null = null;
+
+// Random ID generated on first launch; identifies this install's session on the server
+export const getDeviceId = async (): Promise<string> => {
+  if (cachedDeviceId) return cachedDeviceId;
+
+  let deviceId = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 12)}`;
+    await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  cachedDeviceId = deviceId;
+  return deviceId;
+};
+
+// Human-readable name shown in the Devices list
+export const getDeviceName = (): string => {
+  const constants = Platform.constants as any;
+  if (Platform.OS === 'android') {
+    return [constants?.Manufacturer, constants?.Model].filter(Boolean).join(' ') || 'Android device';
+  }
+  if (Platform.OS === 'ios') {
+    return constants?.interfaceIdiom === 'pad' ? 'iPad' : 'iPhone';
+  }
+  return 'Web browser';
+};
+
+// IANA timezone of this device, used to schedule quiet hours on the server
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
@@ -0,0 +1,14 @@
+// Must match "scheme" in app.json
+export const APP_SCHEME = 'ileap';
+
+const INVITE_PATH = 'invite';
+
+// Link that opens the app on the join preview for an invite
+export const getInviteLink = (code: string): string => `${APP_SCHEME}://${INVITE_PATH}/${code}`;
+
+// Invite code from a link such as ileap://invite/ABCD2345, or null for any other URL
+export const parseInviteLink = (url: string | null): string | null => {
+  if (!url) return null;
+  const match = url.match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^/]+\/)*?invite\/([A-Za-z0-9]+)/i);
+  return match ? match[1] : null;
+};
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { authAPI } from '../config/api';
+import { authAPI, setSessionExpiredHandler } from '../config/api';
 import { useNotifications } from './NotificationContext';
 import { notificationsAPI } from '../config/api';
 
@@ -17,7 +17,10 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   signIn: (email: string, password: string) => Promise<void>;
+  verifyEmail: (email: string, code: string) => Promise<void>;
+  resetPassword: (email: string, code: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
   refreshSession: () => Promise<void>;
 }
 
@@ -42,6 +45,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     checkAuth();
   }, []);
 
+  // The refresh token was rejected (expired, revoked or reused): back to Login
+  useEffect(() => {
+    setSessionExpiredHandler(() => setUser(null));
+    return () => setSessionExpiredHandler(null);
+  }, []);
+
   const checkAuth = async () => {
     try {
       // Check if we have a stored user
@@ -89,11 +98,44 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         await AsyncStorage.removeItem('user');
         await AsyncStorage.removeItem('auth_token');
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error refreshing session:', error);
-      setUser(null);
-      await AsyncStorage.removeItem('user');
-      await AsyncStorage.removeItem('auth_token');
+      // Still unauthorized after trying to refresh: the session is gone.
+      // Anything else (e.g. offline) keeps the stored user signed in.
+      if (error.response?.status === 401) {
+        setUser(null);
+        await authAPI.signOut();
+      }
+    }
+  };
+
+  // Store the signed-in user from a signin or verify response
+  const completeSignIn = async (result: any) => {
+    if (!result?.user) {
+      throw new Error('Login failed - no user data received');
+    }
+
+    console.log('Login successful, user data:', {
+      id: result.user.id,
+      email: result.user.email,
+      name: result.user.name,
+      role: result.user.role,
+    });
+    setUser({
+      id: result.user.id,
+      email: result.user.email,
+      name: result.user.name,
+      role: result.user.role || null,
+      image: result.user.image,
+    });
+
+    // Register for push notifications after successful login
+    if (registerForPushNotifications) {
+      try {
+        await registerForPushNotifications();
+      } catch (error) {
+        console.error('Error registering push notifications on login:', error);
+      }
     }
   };
 
@@ -101,32 +143,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       setIsLoading(true);
       const result = await authAPI.signIn(email, password);
-      if (result?.user) {
-        console.log('Login successful, user data:', {
-          id: result.user.id,
-          email: result.user.email,
-          name: result.user.name,
-          role: result.user.role,
-        });
-        setUser({
-          id: result.user.id,
-          email: result.user.email,
-          name: result.user.name,
-          role: result.user.role || null,
-          image: result.user.image,
-        });
-        
-        // Register for push notifications after successful login
-        if (registerForPushNotifications) {
-          try {
-            await registerForPushNotifications();
-          } catch (error) {
-            console.error('Error registering push notifications on login:', error);
-          }
-        }
-      } else {
-        throw new Error('Login failed - no user data received');
-      }
+      await completeSignIn(result);
     } catch (error: any) {
       console.error('Sign in error:', error);
       throw error;
@@ -135,6 +152,28 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Code-based sign-ins skip the global loading state: it would unmount the
+  // navigator and drop the user back on the Login screen if the code is wrong
+  const verifyEmail = async (email: string, code: string) => {
+    try {
+      const result = await authAPI.verifyEmail(email, code);
+      await completeSignIn(result);
+    } catch (error: any) {
+      console.error('Verify email error:', error);
+      throw error;
+    }
+  };
+
+  const resetPassword = async (email: string, code: string, password: string) => {
+    try {
+      const result = await authAPI.resetPassword(email, code, password);
+      await completeSignIn(result);
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      throw error;
+    }
+  };
+
   const signOut = async () => {
     try {
       // Unregister push token before signing out
@@ -153,6 +192,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Ends every session on the server, including this one; errors are left to the caller
+  const signOutEverywhere = async () => {
+    try {
+      await notificationsAPI.unregisterDeviceToken();
+    } catch (error) {
+      console.error('Error unregistering push token:', error);
+    }
+
+    await authAPI.signOutEverywhere();
+    setUser(null);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -160,7 +211,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         isLoading,
         isAuthenticated: !!user,
         signIn,
+        verifyEmail,
+        resetPassword,
         signOut,
+        signOutEverywhere,
         refreshSession,
       }}
     >
@@ -228,6 +228,17 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
           bypassDnd: false,
         });
         console.log('✅ Android notification channel created with MAX importance (floating enabled)');
+
+        // Pushes sent during the user's quiet hours use this channel: no sound, no heads-up
+        await Notifications.setNotificationChannelAsync('quiet', {
+          name: 'Quiet hours',
+          description: 'Messages received during your quiet hours',
+          importance: Notifications.AndroidImportance.LOW,
+          sound: null,
+          enableVibrate: false,
+          showBadge: true,
+          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        });
         
         // Also set up categories again after channel creation (Android needs this)
         await setupNotificationCategories();
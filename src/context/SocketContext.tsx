@@ -0,0 +1,106 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { io, Socket } from 'socket.io-client';
+import { API_BASE_URL } from '../config/constants';
+import { refreshAccessToken } from '../config/api';
+import { useAuth } from './AuthContext';
+
+type SocketHandler = (payload: any) => void;
+
+interface SocketContextType {
+  isConnected: boolean;
+  subscribe: (event: string, handler: SocketHandler) => () => void;
+  emit: (event: string, payload?: any) => void;
+}
+
+const SocketContext = createContext<SocketContextType | undefined>(undefined);
+
+export const SocketProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<Socket | null>(null);
+
+  useEffect(() => {
+    // Only connect while signed in; reconnect whenever the user changes
+    if (!user) {
+      return;
+    }
+
+    const socket = io(API_BASE_URL, {
+      transports: ['websocket'],
+      // Read the token on every (re)connect so a refreshed token is picked up
+      auth: async (cb) => {
+        const token = await AsyncStorage.getItem('auth_token');
+        cb({ token });
+      },
+      reconnection: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 10000,
+    });
+    socketRef.current = socket;
+
+    socket.on('connect', () => {
+      console.log('🔌 Socket connected');
+      setIsConnected(true);
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('🔌 Socket disconnected:', reason);
+      setIsConnected(false);
+    });
+
+    socket.on('connect_error', async (error) => {
+      console.warn('⚠️ Socket connection error:', error.message);
+      setIsConnected(false);
+      // The server rejects expired access tokens and socket.io won't retry on its own
+      if (error.message === 'Token expired') {
+        const token = await refreshAccessToken();
+        if (token && socketRef.current === socket) {
+          socket.connect();
+        }
+      }
+    });
+
+    return () => {
+      socket.removeAllListeners();
+      socket.disconnect();
+      socketRef.current = null;
+      setIsConnected(false);
+    };
+  }, [user?.id]);
+
+  const subscribe = useCallback((event: string, handler: SocketHandler) => {
+    const socket = socketRef.current;
+    if (!socket) {
+      return () => {};
+    }
+    socket.on(event, handler);
+    return () => {
+      socket.off(event, handler);
+    };
+  }, [isConnected]);
+
+  const emit = useCallback((event: string, payload?: any) => {
+    socketRef.current?.emit(event, payload);
+  }, []);
+
+  return (
+    <SocketContext.Provider
+      value={{
+        isConnected,
+        subscribe,
+        emit,
+      }}
+    >
+      {children}
+    </SocketContext.Provider>
+  );
+};
+
+export const useSocket = () => {
+  const context = useContext(SocketContext);
+  if (context === undefined) {
+    throw new Error('useSocket must be used within a SocketProvider');
+  }
+  return context;
+};
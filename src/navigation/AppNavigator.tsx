@@ -1,16 +1,24 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import * as Notifications from 'expo-notifications';
 import { useAuth } from '../context/AuthContext';
 import { useNotifications } from '../context/NotificationContext';
 import LoginScreen from '../screens/LoginScreen';
+import SignupScreen from '../screens/SignupScreen';
+import VerifyEmailScreen from '../screens/VerifyEmailScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
+import ResetPasswordScreen from '../screens/ResetPasswordScreen';
 import ConversationsScreen from '../screens/ConversationsScreen';
 import ChatScreen from '../screens/ChatScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import SelectUserScreen from '../screens/SelectUserScreen';
 import GroupManagementScreen from '../screens/GroupManagementScreen';
-import { ActivityIndicator, View, StyleSheet } from 'react-native';
+import SearchScreen from '../screens/SearchScreen';
+import MessageInfoScreen from '../screens/MessageInfoScreen';
+import JoinGroupScreen from '../screens/JoinGroupScreen';
+import { parseInviteLink } from '../config/invites';
+import { ActivityIndicator, View, StyleSheet, Linking } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 const Stack = createNativeStackNavigator();
@@ -19,6 +27,32 @@ export default function AppNavigator() {
   const { isAuthenticated, isLoading } = useAuth();
   const { lastNotificationResponse } = useNotifications();
   const navigationRef = useRef<any>(null);
+  const [isNavigationReady, setIsNavigationReady] = useState(false);
+  // Invite link the app was opened with, kept until the user is signed in
+  const [pendingInviteCode, setPendingInviteCode] = useState<string | null>(null);
+
+  // Pick up invite links, both the one that launched the app and any opened while it runs
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      const code = parseInviteLink(url);
+      if (code) setPendingInviteCode(code);
+    };
+
+    Linking.getInitialURL().then(handleUrl).catch(error => console.error('Error reading initial URL:', error));
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  // The navigator is unmounted while loading (e.g. during sign-in); wait for it to be ready again
+  useEffect(() => {
+    if (isLoading) setIsNavigationReady(false);
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (!isAuthenticated || !isNavigationReady || !pendingInviteCode) return;
+    navigationRef.current?.navigate('JoinGroup', { code: pendingInviteCode });
+    setPendingInviteCode(null);
+  }, [pendingInviteCode, isAuthenticated, isNavigationReady]);
 
   // Handle notification taps and navigate to appropriate screen
   useEffect(() => {
@@ -52,6 +86,8 @@ export default function AppNavigator() {
         } else {
           console.log('⚠️ Skipping navigation - invalid test groupId:', notificationData.groupId);
         }
+      } else if (notificationData?.type === 'group_join_request' && isValidObjectId(notificationData?.groupId as string)) {
+        navigationRef.current?.navigate('GroupManagement', { groupId: notificationData.groupId });
       }
     }
   }, [lastNotificationResponse, isAuthenticated]);
@@ -66,10 +102,16 @@ export default function AppNavigator() {
 
   return (
     <SafeAreaProvider>
-      <NavigationContainer ref={navigationRef}>
+      <NavigationContainer ref={navigationRef} onReady={() => setIsNavigationReady(true)}>
         <Stack.Navigator screenOptions={{ headerShown: false }}>
           {!isAuthenticated ? (
-            <Stack.Screen name="Login" component={LoginScreen} />
+            <>
+              <Stack.Screen name="Login" component={LoginScreen} />
+              <Stack.Screen name="Signup" component={SignupScreen} />
+              <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
+              <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+              <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+            </>
           ) : (
             <>
               <Stack.Screen name="Conversations" component={ConversationsScreen} />
@@ -77,6 +119,9 @@ export default function AppNavigator() {
               <Stack.Screen name="Profile" component={ProfileScreen} />
               <Stack.Screen name="SelectUser" component={SelectUserScreen} />
               <Stack.Screen name="GroupManagement" component={GroupManagementScreen} />
+              <Stack.Screen name="Search" component={SearchScreen} />
+              <Stack.Screen name="MessageInfo" component={MessageInfoScreen} />
+              <Stack.Screen name="JoinGroup" component={JoinGroupScreen} />
             </>
           )}
         </Stack.Navigator>
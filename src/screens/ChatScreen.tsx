@@ -3,6 +3,8 @@ import {
   View,
   Text,
   FlatList,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
   TextInput,
   TouchableOpacity,
   StyleSheet,
@@ -13,12 +15,70 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import { Paperclip, X, Check, CheckCheck } from 'lucide-react-native';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
-import { messagesAPI } from '../config/api';
-import { Message, Conversation, Group } from '../types/message';
-import { format } from 'date-fns';
+import { useSocket } from '../context/SocketContext';
+import { messagesAPI, usersAPI, notificationsAPI } from '../config/api';
+import {
+  Message,
+  Conversation,
+  Group,
+  MessageReadEvent,
+  MessageDeliveredEvent,
+  MediaUpload,
+  TypingEvent,
+  UserPresence,
+  NotificationMode,
+  NotificationSettings,
+  GroupAction,
+} from '../types/message';
+import { format, formatDistanceToNow } from 'date-fns';
 import Header from '../components/Header';
+import MessageMedia from '../components/MessageMedia';
+import MediaViewer from '../components/MediaViewer';
+import MessageActionsSheet, { MessageAction } from '../components/MessageActionsSheet';
+
+// Must match the server's upload limit in server/middleware/upload.ts
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// Older pages fetched at most when opening the chat at a search result
+const MAX_FOCUS_PAGES = 10;
+
+// Distance in pixels from the top that triggers loading older messages
+const LOAD_OLDER_THRESHOLD = 80;
+// Distance in pixels from the bottom within which new messages scroll into view
+const NEAR_BOTTOM_THRESHOLD = 120;
+
+// Hide someone's typing indicator if no update arrives within this time
+const TYPING_EXPIRY_MS = 5000;
+// While typing, re-send "typing started" at most this often
+const TYPING_THROTTLE_MS = 3000;
+// Send "typing stopped" after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
+// How often to refresh the other participant's online status
+const PRESENCE_REFRESH_MS = 60 * 1000;
+
+// Mute durations offered in the notifications sheet; no minutes means forever
+const MUTE_OPTIONS: Array<{ label: string; minutes?: number }> = [
+  { label: 'Mute for 8 hours', minutes: 8 * 60 },
+  { label: 'Mute for 1 week', minutes: 7 * 24 * 60 },
+  { label: 'Mute until turned back on' },
+];
+
+// Current notification setting shown at the top of the sheet
+const getNotificationStatus = (settings: NotificationSettings | null): string => {
+  if (!settings || settings.mode === 'all') return 'Notifying you about all messages';
+  if (settings.mode === 'mentions') return 'Only notifying you when you are mentioned';
+  return settings.mutedUntil
+    ? `Muted until ${format(new Date(settings.mutedUntil), 'MMM d, h:mm a')}`
+    : 'Muted';
+};
+
+// Quick reactions offered in the long-press sheet
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
 
 // Helper function to get initials from name
 const getInitials = (name: string): string => {
@@ -45,24 +105,384 @@ const getAvatarColor = (name: string): string => {
   return colors[seed % colors.length];
 };
 
+// Populated references arrive as objects, unpopulated ones as plain ids
+const getRefId = (ref: any): string | undefined => {
+  if (!ref) return undefined;
+  return typeof ref === 'string' ? ref : ref._id;
+};
+
+// Reactions grouped by emoji, in the order each emoji was first used
+const getReactionSummary = (reactions: Message['reactions'] = [], currentUserId?: string) => {
+  const summary: Array<{ emoji: string; count: number; reactedByMe: boolean }> = [];
+  reactions.forEach(({ user: reactorId, emoji }) => {
+    let entry = summary.find(item => item.emoji === emoji);
+    if (!entry) {
+      entry = { emoji, count: 0, reactedByMe: false };
+      summary.push(entry);
+    }
+    entry.count += 1;
+    if (reactorId === currentUserId) entry.reactedByMe = true;
+  });
+  return summary;
+};
+
+// "Alex is typing…", "Alex and Sam are typing…" or "3 people are typing…"
+const getTypingText = (typingUsers: Array<{ name: string }>): string => {
+  const firstNames = typingUsers.map(typingUser => typingUser.name?.split(' ')[0] || 'Someone');
+  if (firstNames.length === 1) return `${firstNames[0]} is typing…`;
+  if (firstNames.length === 2) return `${firstNames[0]} and ${firstNames[1]} are typing…`;
+  return `${firstNames.length} people are typing…`;
+};
+
+// Short text for a quoted message, falling back to a label for attachments
+const getQuotedText = (quoted: { content: string; media?: { type: string } }): string => {
+  if (quoted.content) return quoted.content;
+  if (quoted.media?.type === 'video') return '🎥 Video';
+  if (quoted.media?.type === 'image') return '📷 Photo';
+  return '';
+};
+
+// Suggestions shown while typing an "@" mention
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// The "@partial" being typed right before the cursor, if any
+const getMentionQuery = (text: string, cursor: number): { start: number; query: string } | null => {
+  const match = /(^|\s)@([^@\n]{0,30})$/.exec(text.substring(0, cursor));
+  if (!match) return null;
+  return { start: match.index + match[1].length, query: match[2] };
+};
+
+// Split message content into plain text and mentions
+const getContentParts = (content: string, mentions: Message['mentions'] = []) => {
+  const parts: Array<{ text: string; userId?: string }> = [];
+  let position = 0;
+  [...mentions]
+    .sort((a, b) => a.offset - b.offset)
+    .forEach(({ user: mentionedUserId, offset, length }) => {
+      if (offset < position || offset + length > content.length) return;
+      if (offset > position) {
+        parts.push({ text: content.substring(position, offset) });
+      }
+      parts.push({ text: content.substring(offset, offset + length), userId: mentionedUserId });
+      position = offset + length;
+    });
+  if (position < content.length) {
+    parts.push({ text: content.substring(position) });
+  }
+  return parts;
+};
+
 export default function ChatScreen({ route, navigation }: any) {
-  const { userId, isGroup } = route.params;
+  const { userId, isGroup, focusMessageId } = route.params;
   const { user } = useAuth();
   const { theme } = useTheme();
+  const { isConnected, subscribe, emit } = useSocket();
   const [messages, setMessages] = useState<Message[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [messageText, setMessageText] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [conversation, setConversation] = useState<Conversation | Group | null>(null);
+  // What the current user may do in this group, as decided by the server
+  const [groupActions, setGroupActions] = useState<GroupAction[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [viewerMedia, setViewerMedia] = useState<Message['media'] | null>(null);
+  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [typingUsers, setTypingUsers] = useState<Array<{ userId: string; name: string }>>([]);
+  const [presence, setPresence] = useState<UserPresence | null>(null);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
+  const [isNotificationSheetOpen, setIsNotificationSheetOpen] = useState(false);
+  // Cursor position in the composer, to find the "@" mention being typed
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
   const flatListRef = useRef<FlatList>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Follow new messages only while the user is at the bottom, not reading history
+  const isNearBottomRef = useRef(!focusMessageId);
+  // Scroll events only count once the user has dragged the list themselves
+  const hasUserScrolledRef = useRef(false);
+  const isLoadingOlderRef = useRef(false);
+  const hasLoadedFirstPageRef = useRef(false);
+  const typingExpiryRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const typingIdleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const wasConnectedRef = useRef(isConnected);
 
   useEffect(() => {
+    // Start fresh when switching chats so pages from the previous chat don't linger
+    setMessages([]);
+    setNextCursor(null);
+    setIsLoading(true);
+    hasLoadedFirstPageRef.current = false;
+    hasUserScrolledRef.current = false;
+    isNearBottomRef.current = !focusMessageId;
     loadMessages();
-    // Poll for new messages every 5 seconds
+    loadConversation();
+    loadNotificationSettings();
+  }, [userId, isGroup]);
+
+  // Poll for new messages every 5 seconds, but only while the socket is down
+  useEffect(() => {
+    if (isConnected) return;
     const interval = setInterval(loadMessages, 5000);
     return () => clearInterval(interval);
+  }, [userId, isGroup, isConnected]);
+
+  // The server doesn't replay events missed while disconnected, so catch up on reconnect
+  useEffect(() => {
+    if (isConnected && !wasConnectedRef.current) {
+      loadMessages();
+    }
+    wasConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  // Real-time updates pushed by the server
+  useEffect(() => {
+    const unsubscribeNew = subscribe('message:new', (message: Message) => {
+      if (!isMessageForChat(message)) return;
+      setMessages(prev => mergeMessage(prev, message));
+      hideTyping(message.sender._id);
+      if (message.sender._id !== user?.id) {
+        markChatAsRead();
+      }
+    });
+
+    const unsubscribeUpdated = subscribe('message:updated', (message: Message) => {
+      if (!isMessageForChat(message)) return;
+      setMessages(prev => replaceMessage(prev, message));
+    });
+
+    const unsubscribeRead = subscribe('message:read', (event: MessageReadEvent) => {
+      if (isGroup || event.conversationId !== userId) return;
+      setMessages(prev =>
+        prev.map(message =>
+          message.sender._id === user?.id && message.status !== 'read'
+            ? { ...message, isRead: true, status: 'read', readAt: event.readAt }
+            : message
+        )
+      );
+    });
+
+    const unsubscribeDelivered = subscribe('message:delivered', (event: MessageDeliveredEvent) => {
+      if (isGroup || event.conversationId !== userId) return;
+      setMessages(prev =>
+        prev.map(message =>
+          message.sender._id === user?.id && message.status === 'sent'
+            ? { ...message, status: 'delivered', deliveredAt: event.deliveredAt }
+            : message
+        )
+      );
+    });
+
+    const unsubscribeGroupUpdated = subscribe('group:updated', (group: Group) => {
+      if (!isGroup || group._id !== userId) return;
+      setConversation(prev => ({ ...(prev as Group), ...group }));
+    });
+
+    const handleGroupGone = ({ groupId, left }: { groupId: string; left?: boolean }) => {
+      if (!isGroup || groupId !== userId) return;
+      // Leaving was the user's own choice, no need to explain
+      if (!left) {
+        Alert.alert('Group unavailable', 'This group was deleted or you are no longer a member.');
+      }
+      navigation.navigate('Conversations');
+    };
+    const unsubscribeGroupRemoved = subscribe('group:removed', handleGroupGone);
+    const unsubscribeGroupDeleted = subscribe('group:deleted', handleGroupGone);
+
+    const unsubscribeTyping = subscribe('typing', (event: TypingEvent) => {
+      const isForChat = isGroup
+        ? event.groupId === userId
+        : !event.groupId && event.conversationId === userId;
+      if (!isForChat) return;
+      if (event.isTyping) {
+        showTyping(event.userId, event.name);
+      } else {
+        hideTyping(event.userId);
+      }
+    });
+
+    return () => {
+      unsubscribeNew();
+      unsubscribeUpdated();
+      unsubscribeRead();
+      unsubscribeDelivered();
+      unsubscribeGroupUpdated();
+      unsubscribeGroupRemoved();
+      unsubscribeGroupDeleted();
+      unsubscribeTyping();
+    };
+  }, [subscribe, userId, isGroup, user?.id]);
+
+  // Online status of the other participant in a direct chat
+  useEffect(() => {
+    setPresence(null);
+    if (isGroup) return;
+
+    const loadPresence = async () => {
+      try {
+        const [userPresence] = await usersAPI.getPresence([userId]);
+        setPresence(userPresence || null);
+      } catch (error) {
+        console.error('Error loading presence:', error);
+      }
+    };
+
+    loadPresence();
+    const interval = setInterval(loadPresence, PRESENCE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [userId, isGroup]);
+
+  // Tell the other side we stopped typing and forget who was typing when leaving the chat
+  useEffect(() => {
+    return () => {
+      stopTyping();
+      Object.values(typingExpiryRef.current).forEach(clearTimeout);
+      typingExpiryRef.current = {};
+      setTypingUsers([]);
+    };
   }, [userId, isGroup]);
 
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    };
+  }, []);
+
+  // Opened from search: show the message in context once the first page is in
+  useEffect(() => {
+    if (!focusMessageId || isLoading) return;
+    focusOnMessage(focusMessageId);
+  }, [focusMessageId, isLoading]);
+
+  const isMessageForChat = (message: Message): boolean => {
+    if (isGroup) {
+      return getRefId(message.group) === userId;
+    }
+    if (message.group) return false;
+    const senderId = getRefId(message.sender);
+    const receiverId = getRefId(message.receiver);
+    return (
+      (senderId === userId && receiverId === user?.id) ||
+      (senderId === user?.id && receiverId === userId)
+    );
+  };
+
+  // Append a message unless we already have it (socket and HTTP responses can race)
+  const mergeMessage = (current: Message[], message: Message): Message[] => {
+    if (current.some(existing => existing._id === message._id)) {
+      return current;
+    }
+    return [...current, message];
+  };
+
+  // Merge a fetched page into the list: refresh messages we already have,
+  // add the rest and keep everything in chronological order
+  const mergeMessages = (current: Message[], page: Message[]): Message[] => {
+    const pageById = new Map(page.map(message => [message._id, message]));
+    const currentIds = new Set(current.map(message => message._id));
+    return [
+      ...current.map(message => pageById.get(message._id) || message),
+      ...page.filter(message => !currentIds.has(message._id)),
+    ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  };
+
+  const showTyping = (typingUserId: string, name: string) => {
+    setTypingUsers(prev =>
+      prev.some(typingUser => typingUser.userId === typingUserId)
+        ? prev
+        : [...prev, { userId: typingUserId, name }]
+    );
+    clearTimeout(typingExpiryRef.current[typingUserId]);
+    typingExpiryRef.current[typingUserId] = setTimeout(() => hideTyping(typingUserId), TYPING_EXPIRY_MS);
+  };
+
+  const hideTyping = (typingUserId: string) => {
+    clearTimeout(typingExpiryRef.current[typingUserId]);
+    delete typingExpiryRef.current[typingUserId];
+    setTypingUsers(prev => prev.filter(typingUser => typingUser.userId !== typingUserId));
+  };
+
+  const getTypingTarget = () => (isGroup ? { groupId: userId } : { receiverId: userId });
+
+  const stopTyping = () => {
+    if (typingIdleTimeoutRef.current) {
+      clearTimeout(typingIdleTimeoutRef.current);
+      typingIdleTimeoutRef.current = null;
+    }
+    if (lastTypingSentRef.current) {
+      emit('typing:stop', getTypingTarget());
+      lastTypingSentRef.current = 0;
+    }
+  };
+
+  const handleTextChange = (text: string) => {
+    setMessageText(text);
+    // Edits don't produce a new message, so they don't count as typing
+    if (editingMessage) return;
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      emit('typing:start', getTypingTarget());
+      lastTypingSentRef.current = now;
+    }
+    if (typingIdleTimeoutRef.current) clearTimeout(typingIdleTimeoutRef.current);
+    typingIdleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const groupMembers = isGroup && conversation && 'members' in conversation ? conversation.members : [];
+  const mentionQuery = isGroup
+    ? getMentionQuery(messageText, Math.min(selection.end, messageText.length))
+    : null;
+  const mentionSuggestions = mentionQuery
+    ? groupMembers
+        .filter(member =>
+          member._id !== user?.id &&
+          member.name?.toLowerCase().split(' ').some(word => word.startsWith(mentionQuery.query.toLowerCase()))
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  // Replace the "@partial" being typed with the member's full name
+  const insertMention = (member: Group['members'][number]) => {
+    if (!mentionQuery) return;
+    const cursor = mentionQuery.start + 1 + mentionQuery.query.length;
+    const mention = `@${member.name} `;
+    const text = messageText.substring(0, mentionQuery.start) + mention + messageText.substring(cursor);
+    handleTextChange(text);
+    // Until the input reports the new cursor, assume it sits after the inserted name
+    const position = mentionQuery.start + mention.length;
+    setSelection({ start: position, end: position });
+  };
+
+  // Tapping a mention opens a direct chat with that member
+  const openMention = (mentionedUserId: string) => {
+    if (mentionedUserId === user?.id) return;
+    navigation.push('Chat', { userId: mentionedUserId, isGroup: false });
+  };
+
+  const replaceMessage = (current: Message[], message: Message): Message[] =>
+    current.map(existing => (existing._id === message._id ? message : existing));
+
+  const markChatAsRead = async () => {
+    try {
+      if (isGroup) {
+        await messagesAPI.markGroupAsRead(userId);
+      } else {
+        await messagesAPI.markAsRead(userId);
+      }
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
+  };
+
   const loadMessages = async () => {
     try {
       let messagesData;
@@ -73,40 +493,137 @@ export default function ChatScreen({ route, navigation }: any) {
         // Mark as read
         await messagesAPI.markAsRead(userId);
       }
-      setMessages(messagesData.messages || []);
-      
-      // Load conversation/group info
+      setMessages(prev => mergeMessages(prev, messagesData.messages || []));
+      // Polling refetches the newest page; only the first load decides where older history starts
+      if (!hasLoadedFirstPageRef.current) {
+        hasLoadedFirstPageRef.current = true;
+        setNextCursor(messagesData.nextCursor || null);
+      }
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    if (!nextCursor || isLoadingOlderRef.current) return;
+
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const olderData = isGroup
+        ? await messagesAPI.getGroupMessages(userId, 20, nextCursor)
+        : await messagesAPI.getMessages(userId, 20, nextCursor);
+      setMessages(prev => mergeMessages(prev, olderData.messages || []));
+      setNextCursor(olderData.nextCursor || null);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!hasUserScrolledRef.current) return;
+
+    const { contentOffset, contentSize, layoutMeasurement } = nativeEvent;
+    const distanceFromBottom = contentSize.height - (contentOffset.y + layoutMeasurement.height);
+    isNearBottomRef.current = distanceFromBottom < NEAR_BOTTOM_THRESHOLD;
+    if (contentOffset.y < LOAD_OLDER_THRESHOLD) {
+      loadOlderMessages();
+    }
+  };
+
+  // Load conversation/group info
+  const loadConversation = async () => {
+    try {
       if (!isGroup) {
         const conversations = await messagesAPI.getConversations();
         const conv = conversations.find((c: Conversation) => c._id === userId);
         setConversation(conv || null);
       } else {
-        const groups = await messagesAPI.getGroups();
+        const [groups, actions] = await Promise.all([
+          messagesAPI.getGroups(),
+          messagesAPI.getGroupPermissions(userId),
+        ]);
         const group = groups.find((g: Group) => g._id === userId);
         setConversation(group || null);
+        setGroupActions(actions);
       }
     } catch (error) {
-      console.error('Error loading messages:', error);
-    } finally {
-      setIsLoading(false);
+      console.error('Error loading conversation:', error);
+    }
+  };
+
+  const notificationTarget = isGroup ? { groupId: userId } : { conversationId: userId };
+
+  const loadNotificationSettings = async () => {
+    setNotificationSettings(null);
+    try {
+      setNotificationSettings(await notificationsAPI.getSettings(notificationTarget));
+    } catch (error) {
+      console.error('Error loading notification settings:', error);
+    }
+  };
+
+  const updateNotificationSettings = async (mode: NotificationMode, muteMinutes?: number) => {
+    try {
+      setNotificationSettings(await notificationsAPI.updateSettings(notificationTarget, mode, muteMinutes));
+    } catch (error: any) {
+      console.error('Error updating notification settings:', error);
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to update notifications');
+    }
+  };
+
+  const getNotificationActions = (): MessageAction[] => {
+    const mode = notificationSettings?.mode || 'all';
+    const actions: MessageAction[] = [
+      { label: mode === 'all' ? '✓ All messages' : 'All messages', onPress: () => updateNotificationSettings('all') },
+    ];
+    if (isGroup) {
+      actions.push({
+        label: mode === 'mentions' ? '✓ Mentions only' : 'Mentions only',
+        onPress: () => updateNotificationSettings('mentions'),
+      });
     }
+    MUTE_OPTIONS.forEach(option => {
+      actions.push({ label: option.label, onPress: () => updateNotificationSettings('muted', option.minutes) });
+    });
+    return actions;
   };
 
+  // A media message's caption can be edited down to nothing
+  const canSubmit = !!messageText.trim() || !!editingMessage?.media;
+
   const sendMessage = async () => {
-    if (!messageText.trim() || isSending) return;
+    if (!canSubmit || isSending) return;
 
     const content = messageText.trim();
     setMessageText('');
     setIsSending(true);
+    stopTyping();
+
+    if (editingMessage) {
+      await saveEdit(editingMessage, content);
+      return;
+    }
 
     try {
+      let sentMessage: Message;
       if (isGroup) {
-        await messagesAPI.sendGroupMessage(userId, content);
+        sentMessage = await messagesAPI.sendGroupMessage(userId, content, replyingTo?._id);
       } else {
-        await messagesAPI.sendMessage(userId, content);
+        sentMessage = await messagesAPI.sendMessage(userId, content, replyingTo?._id);
+      }
+      isNearBottomRef.current = true;
+      setMessages(prev => mergeMessage(prev, sentMessage));
+      setReplyingTo(null);
+      if (!conversation) {
+        // First message of a new conversation
+        loadConversation();
       }
-      // Reload messages
-      await loadMessages();
     } catch (error: any) {
       console.error('Error sending message:', error);
       Alert.alert('Error', error.message || 'Failed to send message');
@@ -116,16 +633,251 @@ export default function ChatScreen({ route, navigation }: any) {
     }
   };
 
+  const saveEdit = async (message: Message, content: string) => {
+    try {
+      const updatedMessage = await messagesAPI.editMessage(message._id, content);
+      setMessages(prev => replaceMessage(prev, updatedMessage));
+      setEditingMessage(null);
+    } catch (error: any) {
+      console.error('Error editing message:', error);
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to edit message');
+      setMessageText(content);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageText(message.content);
+  };
+
+  const startReplying = (message: Message) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(message);
+  };
+
+  // Load older pages until the message is in the list, then scroll to it
+  const focusOnMessage = async (messageId: string) => {
+    isNearBottomRef.current = false;
+    isLoadingOlderRef.current = true;
+    let loaded = messages;
+    let cursor = nextCursor;
+    try {
+      for (let page = 0; page < MAX_FOCUS_PAGES; page++) {
+        if (loaded.some(message => message._id === messageId) || !cursor) break;
+        const olderData = isGroup
+          ? await messagesAPI.getGroupMessages(userId, 50, cursor)
+          : await messagesAPI.getMessages(userId, 50, cursor);
+        loaded = mergeMessages(loaded, olderData.messages || []);
+        cursor = olderData.nextCursor || null;
+      }
+      setMessages(prev => mergeMessages(prev, loaded));
+      setNextCursor(cursor);
+      // Give the list a moment to render the older rows before scrolling
+      setTimeout(() => scrollToMessage(messageId, loaded), 300);
+    } catch (error) {
+      console.error('Error loading message context:', error);
+    } finally {
+      isLoadingOlderRef.current = false;
+    }
+  };
+
+  // Scroll to a message (e.g. the original of a quote) and briefly highlight it
+  const scrollToMessage = (messageId: string, list: Message[] = messages) => {
+    const index = list.findIndex(message => message._id === messageId);
+    if (index === -1) {
+      Alert.alert('Message unavailable', 'The original message could not be found in this chat.');
+      return;
+    }
+
+    // Reading history now; stop following new messages until the user scrolls back down
+    hasUserScrolledRef.current = false;
+    isNearBottomRef.current = false;
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedMessageId(messageId);
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 1500);
+  };
+
+  // Jump to the original of a quote, paging back through history if it isn't loaded yet
+  const openQuotedMessage = (messageId: string) => {
+    if (messages.some(message => message._id === messageId)) {
+      scrollToMessage(messageId);
+    } else if (!isLoadingOlderRef.current) {
+      focusOnMessage(messageId);
+    }
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessageText('');
+  };
+
+  const confirmDelete = (message: Message) => {
+    Alert.alert(
+      'Delete Message',
+      'This message will be deleted for everyone in the conversation.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const deletedMessage = await messagesAPI.deleteMessage(message._id);
+              setMessages(prev => replaceMessage(prev, deletedMessage));
+              if (editingMessage?._id === message._id) {
+                cancelEditing();
+              }
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to delete message');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const toggleReaction = async (message: Message, emoji: string) => {
+    const hasReacted = !!message.reactions?.some(
+      reaction => reaction.user === user?.id && reaction.emoji === emoji
+    );
+    try {
+      const updatedMessage = hasReacted
+        ? await messagesAPI.removeReaction(message._id, emoji)
+        : await messagesAPI.addReaction(message._id, emoji);
+      setMessages(prev => replaceMessage(prev, updatedMessage));
+    } catch (error: any) {
+      console.error('Error updating reaction:', error);
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to update reaction');
+    }
+  };
+
+  const canModerate = isGroup && groupActions.includes('delete_messages');
+
+  const getMessageActions = (message: Message): MessageAction[] => {
+    if (message.isDeleted || message.systemEvent) return [];
+
+    const isMyMessage = message.sender._id === user?.id;
+    const actions: MessageAction[] = [{ label: 'Reply', onPress: () => startReplying(message) }];
+    if (isGroup) {
+      actions.push({
+        label: 'Info',
+        onPress: () => navigation.navigate('MessageInfo', { groupId: userId, messageId: message._id }),
+      });
+    }
+    const canEdit = !message.editableUntil || new Date(message.editableUntil).getTime() > Date.now();
+    if (isMyMessage && canEdit) {
+      actions.push({ label: 'Edit', onPress: () => startEditing(message) });
+    }
+    // Group moderators can remove any message
+    if (isMyMessage || canModerate) {
+      actions.push({ label: 'Delete', onPress: () => confirmDelete(message), destructive: true });
+    }
+    return actions;
+  };
+
+  const pickAttachment = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Allow photo library access to send photos and videos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images', 'videos'],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets?.length) return;
+
+    const asset = result.assets[0];
+    if (asset.fileSize && asset.fileSize > MAX_UPLOAD_SIZE) {
+      Alert.alert('File too large', 'Photos and videos must be 10MB or smaller.');
+      return;
+    }
+
+    const fallbackName = asset.type === 'video' ? 'video.mp4' : 'photo.jpg';
+    const file: MediaUpload = {
+      uri: asset.uri,
+      name: asset.fileName || fallbackName,
+      type: asset.mimeType || (asset.type === 'video' ? 'video/mp4' : 'image/jpeg'),
+    };
+    await sendAttachment(file);
+  };
+
+  // Upload an attachment, using any typed text as its caption
+  const sendAttachment = async (file: MediaUpload) => {
+    const caption = messageText.trim();
+    setMessageText('');
+    setUploadProgress(0);
+    stopTyping();
+
+    try {
+      let sentMessage: Message;
+      if (isGroup) {
+        sentMessage = await messagesAPI.sendGroupMediaMessage(
+          userId, file, caption, setUploadProgress, replyingTo?._id
+        );
+      } else {
+        sentMessage = await messagesAPI.sendMediaMessage(
+          userId, file, caption, setUploadProgress, replyingTo?._id
+        );
+      }
+      isNearBottomRef.current = true;
+      setMessages(prev => mergeMessage(prev, sentMessage));
+      setReplyingTo(null);
+      if (!conversation) {
+        loadConversation();
+      }
+    } catch (error: any) {
+      console.error('Error sending attachment:', error);
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to send attachment');
+      setMessageText(caption);
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  // Sent: one tick, delivered: two ticks, read: two highlighted ticks
+  const renderStatusTicks = (message: Message) => {
+    const status = message.status || (message.isRead ? 'read' : 'sent');
+    const color = status === 'read' ? '#7FDBFF' : 'rgba(255, 255, 255, 0.7)';
+    return (
+      <View style={styles.statusTicks} accessibilityLabel={status.charAt(0).toUpperCase() + status.slice(1)}>
+        {status === 'sent' ? <Check size={14} color={color} /> : <CheckCheck size={14} color={color} />}
+      </View>
+    );
+  };
+
   const renderMessage = ({ item }: { item: Message }) => {
+    if (item.systemEvent) {
+      return (
+        <View style={styles.systemMessage}>
+          <Text style={[styles.systemMessageText, { color: theme.colors.textSecondary, backgroundColor: theme.colors.surface }]}>
+            {item.content} · {format(new Date(item.createdAt), 'MMM d, h:mm a')}
+          </Text>
+        </View>
+      );
+    }
+
     const isMyMessage = item.sender._id === user?.id;
     const messageDate = new Date(item.createdAt);
     const showDate = true; // You can add logic to show date only when it changes
     const senderName = item.sender.organization_profile?.title || item.sender.name || 'Unknown';
     const initials = getInitials(senderName);
     const avatarColor = getAvatarColor(senderName);
+    const quoted = item.replyTo && typeof item.replyTo !== 'string' ? item.replyTo : null;
+    const reactionSummary = getReactionSummary(item.reactions, user?.id);
 
     return (
-      <View style={styles.messageContainer}>
+      <View
+        style={[
+          styles.messageContainer,
+          item._id === highlightedMessageId && styles.highlightedMessage,
+        ]}
+      >
         {showDate && (
           <View style={styles.dateSeparator}>
             <Text style={[styles.dateText, { color: theme.colors.textTertiary, backgroundColor: theme.colors.surface }]}>
@@ -151,7 +903,12 @@ export default function ChatScreen({ route, navigation }: any) {
               )}
             </View>
           )}
-          <View
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onLongPress={() => {
+              if (getMessageActions(item).length > 0) setSelectedMessage(item);
+            }}
+            accessibilityHint="Long press to react, reply, edit or delete"
             style={[
               styles.messageBubble,
               isMyMessage 
@@ -162,26 +919,87 @@ export default function ChatScreen({ route, navigation }: any) {
             {!isMyMessage && (
               <Text style={[styles.senderName, { color: theme.colors.textSecondary }]}>{senderName}</Text>
             )}
-            
-            {item.content && (
-              <Text style={isMyMessage 
-                ? [styles.myMessageText, { color: theme.colors.messageBubbleText }]
-                : [styles.otherMessageText, { color: theme.colors.messageBubbleOtherText }]
-              }>
-                {item.content}
+
+            {quoted && !item.isDeleted && (
+              <TouchableOpacity
+                style={[
+                  styles.replyQuote,
+                  { borderLeftColor: isMyMessage ? 'rgba(255, 255, 255, 0.7)' : theme.colors.primary },
+                ]}
+                onPress={() => openQuotedMessage(quoted._id)}
+                accessibilityRole="button"
+                accessibilityLabel="Show original message"
+              >
+                <Text
+                  style={[
+                    styles.replyQuoteName,
+                    { color: isMyMessage ? theme.colors.messageBubbleText : theme.colors.primary },
+                  ]}
+                  numberOfLines={1}
+                >
+                  {quoted.sender?._id === user?.id ? 'You' : quoted.sender?.name || 'Unknown'}
+                </Text>
+                <Text
+                  style={[
+                    styles.replyQuoteText,
+                    { color: isMyMessage ? theme.colors.messageBubbleText : theme.colors.messageBubbleOtherText },
+                    quoted.isDeleted && styles.deletedMessageText,
+                  ]}
+                  numberOfLines={2}
+                >
+                  {getQuotedText(quoted)}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {item.media?.url && (
+              <MessageMedia media={item.media} onPress={() => setViewerMedia(item.media)} />
+            )}
+
+            {!!item.content && (
+              <Text style={[
+                isMyMessage 
+                  ? [styles.myMessageText, { color: theme.colors.messageBubbleText }]
+                  : [styles.otherMessageText, { color: theme.colors.messageBubbleOtherText }],
+                item.isDeleted && styles.deletedMessageText,
+              ]}>
+                {!!item.mentions?.length && !item.isDeleted
+                  ? getContentParts(item.content, item.mentions).map((part, index) =>
+                      part.userId ? (
+                        <Text
+                          key={index}
+                          style={[
+                            styles.mention,
+                            { color: isMyMessage ? theme.colors.messageBubbleText : theme.colors.primary },
+                            part.userId === user?.id && styles.mentionOfMe,
+                          ]}
+                          onPress={() => openMention(part.userId!)}
+                          accessibilityRole="link"
+                        >
+                          {part.text}
+                        </Text>
+                      ) : (
+                        part.text
+                      )
+                    )
+                  : item.content}
               </Text>
             )}
             
-            <Text style={[
-              styles.messageTime, 
-              { color: isMyMessage 
-                ? 'rgba(255, 255, 255, 0.7)' 
-                : theme.colors.textTertiary 
-              }
-            ]}>
-              {format(messageDate, 'h:mm a')}
-            </Text>
-          </View>
+            <View style={styles.messageMeta}>
+              <Text style={[
+                styles.messageTime, 
+                { color: isMyMessage 
+                  ? 'rgba(255, 255, 255, 0.7)' 
+                  : theme.colors.textTertiary 
+                }
+              ]}>
+                {item.editedAt && !item.isDeleted ? 'edited · ' : ''}
+                {format(messageDate, 'h:mm a')}
+              </Text>
+              {isMyMessage && !isGroup && renderStatusTicks(item)}
+            </View>
+          </TouchableOpacity>
           {isMyMessage && (
             <View style={[styles.avatarContainer, { backgroundColor: avatarColor }]}>
               {item.sender.image ? (
@@ -195,12 +1013,32 @@ export default function ChatScreen({ route, navigation }: any) {
             </View>
           )}
         </View>
+        {reactionSummary.length > 0 && (
+          <View style={[styles.reactionRow, isMyMessage ? styles.myMessageRow : styles.otherMessageRow]}>
+            {reactionSummary.map(({ emoji, count, reactedByMe }) => (
+              <TouchableOpacity
+                key={emoji}
+                style={[
+                  styles.reactionChip,
+                  { backgroundColor: theme.colors.card, borderColor: theme.colors.border },
+                  reactedByMe && { borderColor: theme.colors.primary },
+                ]}
+                onPress={() => toggleReaction(item, emoji)}
+                accessibilityRole="button"
+                accessibilityLabel={`${emoji} ${count}${reactedByMe ? ', including you' : ''}`}
+              >
+                <Text style={styles.reactionEmoji}>{emoji}</Text>
+                <Text style={[styles.reactionCount, { color: theme.colors.textSecondary }]}>{count}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
     );
   };
 
   useEffect(() => {
-    if (messages.length > 0 && flatListRef.current) {
+    if (messages.length > 0 && flatListRef.current && isNearBottomRef.current) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
@@ -259,9 +1097,32 @@ export default function ChatScreen({ route, navigation }: any) {
           isMenuOpen={false}
           onHomePress={() => navigation.navigate('Conversations')}
           onSettingsPress={isGroup ? () => navigation.navigate('GroupManagement', { groupId: userId }) : undefined}
+          onNotificationsPress={() => setIsNotificationSheetOpen(true)}
+          isMuted={notificationSettings?.mode === 'muted'}
+          onSearchPress={() =>
+            navigation.navigate('Search', {
+              conversationId: isGroup ? undefined : userId,
+              groupId: isGroup ? userId : undefined,
+              scopeName: conversationName,
+            })
+          }
           showSettingsButton={isGroup}
           showHomeButton={!isGroup}
         />
+        {typingUsers.length > 0 ? (
+          <Text
+            style={[styles.typingIndicator, { color: theme.colors.textSecondary, backgroundColor: theme.colors.card }]}
+            accessibilityLiveRegion="polite"
+          >
+            {getTypingText(typingUsers)}
+          </Text>
+        ) : presence && (presence.isOnline || presence.lastSeen) ? (
+          <Text style={[styles.presenceStatus, { color: theme.colors.textSecondary, backgroundColor: theme.colors.card }]}>
+            {presence.isOnline
+              ? 'Online'
+              : `last seen ${formatDistanceToNow(new Date(presence.lastSeen!), { addSuffix: true })}`}
+          </Text>
+        ) : null}
 
         <FlatList
           ref={flatListRef}
@@ -270,7 +1131,27 @@ export default function ChatScreen({ route, navigation }: any) {
           keyExtractor={(item) => item._id}
           contentContainerStyle={[styles.messagesList, dynamicStyles.messagesList]}
           style={styles.messagesContainer}
-          onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+          onContentSizeChange={() => {
+            if (isNearBottomRef.current) flatListRef.current?.scrollToEnd({ animated: true });
+          }}
+          onScrollBeginDrag={() => {
+            hasUserScrolledRef.current = true;
+          }}
+          onScroll={handleScroll}
+          scrollEventThrottle={100}
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+          ListHeaderComponent={
+            isLoadingOlder ? (
+              <ActivityIndicator style={styles.olderLoader} color={theme.colors.primary} />
+            ) : null
+          }
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // Row heights vary, so jump close to the row first and retry once it has rendered
+            flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+            }, 100);
+          }}
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Text style={[styles.emptyText, dynamicStyles.emptyText]}>No messages yet</Text>
@@ -279,11 +1160,95 @@ export default function ChatScreen({ route, navigation }: any) {
         />
 
         <SafeAreaView edges={['bottom']} style={[styles.inputSafeArea, { backgroundColor: theme.colors.card }]}>
+          {uploadProgress !== null && (
+            <View style={[styles.uploadStatus, { borderTopColor: theme.colors.border }]}>
+              <Text style={[styles.uploadStatusText, { color: theme.colors.textSecondary }]}>
+                Uploading… {Math.round(uploadProgress * 100)}%
+              </Text>
+              <View style={[styles.uploadTrack, { backgroundColor: theme.colors.secondary }]}>
+                <View
+                  style={[
+                    styles.uploadBar,
+                    { backgroundColor: theme.colors.primary, width: `${Math.round(uploadProgress * 100)}%` },
+                  ]}
+                />
+              </View>
+            </View>
+          )}
+          {replyingTo && (
+            <View style={[styles.composerBanner, { borderTopColor: theme.colors.border }]}>
+              <View style={styles.composerBannerContent}>
+                <Text style={[styles.composerBannerTitle, { color: theme.colors.primary }]}>
+                  Replying to {replyingTo.sender._id === user?.id ? 'yourself' : replyingTo.sender.name}
+                </Text>
+                <Text style={[styles.composerBannerText, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                  {getQuotedText(replyingTo)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => setReplyingTo(null)}
+                accessibilityRole="button"
+                accessibilityLabel="Cancel reply"
+              >
+                <X size={20} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+          {editingMessage && (
+            <View style={[styles.composerBanner, { borderTopColor: theme.colors.border }]}>
+              <View style={styles.composerBannerContent}>
+                <Text style={[styles.composerBannerTitle, { color: theme.colors.primary }]}>Editing message</Text>
+                <Text style={[styles.composerBannerText, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                  {editingMessage.content}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={cancelEditing} accessibilityRole="button" accessibilityLabel="Cancel editing">
+                <X size={20} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+          {mentionSuggestions.length > 0 && (
+            <View style={[styles.mentionSuggestions, { borderTopColor: theme.colors.border }]}>
+              {mentionSuggestions.map(member => (
+                <TouchableOpacity
+                  key={member._id}
+                  style={styles.mentionSuggestion}
+                  onPress={() => insertMention(member)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Mention ${member.name}`}
+                >
+                  <View style={[styles.mentionAvatar, { backgroundColor: getAvatarColor(member.name) }]}>
+                    {member.image ? (
+                      <Image source={{ uri: member.image }} style={styles.mentionAvatar} />
+                    ) : (
+                      <Text style={styles.mentionAvatarText}>{getInitials(member.name)}</Text>
+                    )}
+                  </View>
+                  <Text style={[styles.mentionName, { color: theme.colors.text }]} numberOfLines={1}>
+                    {member.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
           <View style={[styles.inputContainer, dynamicStyles.inputContainer]}>
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={pickAttachment}
+              disabled={isSending || uploadProgress !== null || !!editingMessage}
+              accessibilityRole="button"
+              accessibilityLabel="Attach photo or video"
+            >
+              <Paperclip
+                size={22}
+                color={uploadProgress !== null ? theme.colors.textTertiary : theme.colors.primary}
+              />
+            </TouchableOpacity>
             <TextInput
               style={[styles.input, dynamicStyles.input]}
               value={messageText}
-              onChangeText={setMessageText}
+              onChangeText={handleTextChange}
+              onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
               placeholder="Type a message..."
               placeholderTextColor={theme.colors.textTertiary}
               multiline
@@ -293,20 +1258,58 @@ export default function ChatScreen({ route, navigation }: any) {
               style={[
                 styles.sendButton,
                 dynamicStyles.sendButton,
-                (!messageText.trim() || isSending) && styles.sendButtonDisabled
+                (!canSubmit || isSending) && styles.sendButtonDisabled
               ]}
               onPress={sendMessage}
-              disabled={!messageText.trim() || isSending}
+              disabled={!canSubmit || isSending}
             >
               {isSending ? (
                 <ActivityIndicator size="small" color="#fff" />
               ) : (
-                <Text style={styles.sendButtonText}>Send</Text>
+                <Text style={styles.sendButtonText}>{editingMessage ? 'Save' : 'Send'}</Text>
               )}
             </TouchableOpacity>
           </View>
         </SafeAreaView>
       </KeyboardAvoidingView>
+      <MediaViewer media={viewerMedia || null} onClose={() => setViewerMedia(null)} />
+      <MessageActionsSheet
+        visible={!!selectedMessage}
+        actions={selectedMessage ? getMessageActions(selectedMessage) : []}
+        onClose={() => setSelectedMessage(null)}
+      >
+        {selectedMessage && !selectedMessage.isDeleted && (
+          <View style={[styles.reactionPicker, { borderBottomColor: theme.colors.border }]}>
+            {REACTION_EMOJIS.map(emoji => (
+              <TouchableOpacity
+                key={emoji}
+                style={styles.reactionPickerButton}
+                onPress={() => {
+                  const message = selectedMessage;
+                  setSelectedMessage(null);
+                  toggleReaction(message, emoji);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel={`React with ${emoji}`}
+              >
+                <Text style={styles.reactionPickerEmoji}>{emoji}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </MessageActionsSheet>
+      <MessageActionsSheet
+        visible={isNotificationSheetOpen}
+        actions={getNotificationActions()}
+        onClose={() => setIsNotificationSheetOpen(false)}
+      >
+        <View style={[styles.sheetHeader, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[styles.sheetTitle, { color: theme.colors.text }]}>Notifications</Text>
+          <Text style={[styles.sheetSubtitle, { color: theme.colors.textSecondary }]}>
+            {getNotificationStatus(notificationSettings)}
+          </Text>
+        </View>
+      </MessageActionsSheet>
     </SafeAreaView>
   );
 }
@@ -354,9 +1357,40 @@ const styles = StyleSheet.create({
   messagesList: {
     padding: 15,
   },
+  typingIndicator: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    paddingHorizontal: 15,
+    paddingVertical: 4,
+  },
+  presenceStatus: {
+    fontSize: 12,
+    paddingHorizontal: 15,
+    paddingVertical: 4,
+  },
+  olderLoader: {
+    paddingVertical: 10,
+  },
   messageContainer: {
     marginBottom: 10,
   },
+  highlightedMessage: {
+    backgroundColor: 'rgba(255, 214, 10, 0.25)',
+    borderRadius: 8,
+  },
+  systemMessage: {
+    alignItems: 'center',
+    marginVertical: 8,
+    paddingHorizontal: 20,
+  },
+  systemMessageText: {
+    fontSize: 12,
+    textAlign: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
   dateSeparator: {
     alignItems: 'center',
     marginVertical: 15,
@@ -422,11 +1456,87 @@ const styles = StyleSheet.create({
   otherMessageText: {
     fontSize: 16,
   },
-  messageTime: {
-    fontSize: 11,
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderRadius: 4,
+    paddingLeft: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  replyQuoteName: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  replyQuoteText: {
+    fontSize: 13,
+    opacity: 0.85,
+  },
+  deletedMessageText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: 52,
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginTop: 2,
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  sheetHeader: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  sheetTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sheetSubtitle: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  reactionPickerButton: {
+    padding: 6,
+  },
+  reactionPickerEmoji: {
+    fontSize: 28,
+  },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginTop: 4,
     alignSelf: 'flex-end',
   },
+  messageTime: {
+    fontSize: 11,
+  },
+  statusTicks: {
+    marginLeft: 4,
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 15,
@@ -434,6 +1544,81 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     alignItems: 'flex-end',
   },
+  mentionSuggestions: {
+    borderTopWidth: 1,
+    paddingVertical: 4,
+  },
+  mentionSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+  },
+  mentionAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  mentionAvatarText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  mentionName: {
+    flex: 1,
+    fontSize: 15,
+  },
+  mention: {
+    fontWeight: '600',
+  },
+  mentionOfMe: {
+    backgroundColor: 'rgba(255, 214, 10, 0.35)',
+  },
+  composerBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingTop: 8,
+    borderTopWidth: 1,
+  },
+  composerBannerContent: {
+    flex: 1,
+    marginRight: 10,
+  },
+  composerBannerTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  composerBannerText: {
+    fontSize: 13,
+  },
+  attachButton: {
+    paddingVertical: 10,
+    paddingRight: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  uploadStatus: {
+    paddingHorizontal: 15,
+    paddingTop: 8,
+    borderTopWidth: 1,
+  },
+  uploadStatusText: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  uploadTrack: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  uploadBar: {
+    height: 4,
+    borderRadius: 2,
+  },
   input: {
     flex: 1,
     borderWidth: 1,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,31 +13,156 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
 import { useNotifications } from '../context/NotificationContext';
-import { messagesAPI } from '../config/api';
-import { Conversation, Group } from '../types/message';
+import { useSocket } from '../context/SocketContext';
+import { messagesAPI, usersAPI } from '../config/api';
+import { Conversation, Group, Message, UserPresence } from '../types/message';
 import { formatDistanceToNow } from 'date-fns';
 import Header from '../components/Header';
 import MenuDrawer from '../components/MenuDrawer';
 import { Plus } from 'lucide-react-native';
 
+// Last message text for list rows; attachments without a caption get a label
+const getLastMessagePreview = (lastMessage: { content: string; media?: { type: 'image' | 'video' } }) => {
+  if (lastMessage.content) return lastMessage.content;
+  if (lastMessage.media?.type === 'video') return '🎥 Video';
+  if (lastMessage.media?.type === 'image') return '📷 Photo';
+  return '';
+};
+
+// How often to refresh online status while the list is open
+const PRESENCE_REFRESH_MS = 60 * 1000;
+
 export default function ConversationsScreen({ navigation }: any) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { user } = useAuth();
   const { theme } = useTheme();
+  const { isConnected, subscribe } = useSocket();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'conversations' | 'groups'>('conversations');
   const [totalUnreadCount, setTotalUnreadCount] = useState(0);
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  // Latest lists for socket handlers, which are registered once
+  const conversationsRef = useRef<Conversation[]>([]);
+  const groupsRef = useRef<Group[]>([]);
+  conversationsRef.current = conversations;
+  groupsRef.current = groups;
+  const wasConnectedRef = useRef(isConnected);
 
   useEffect(() => {
     loadData();
-    // Poll for new messages every 5 seconds
-    const interval = setInterval(loadData, 5000);
+  }, []);
+
+  // Refresh when coming back from a chat, since reading happens there
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', loadData);
+    return unsubscribe;
+  }, [navigation]);
+
+  // Keep online dots and last seen times fresh
+  useEffect(() => {
+    const interval = setInterval(() => {
+      loadPresence(conversationsRef.current.map(conversation => conversation._id));
+    }, PRESENCE_REFRESH_MS);
     return () => clearInterval(interval);
   }, []);
 
+  // Poll for new messages every 5 seconds, but only while the socket is down
+  useEffect(() => {
+    if (isConnected) return;
+    const interval = setInterval(loadData, 5000);
+    return () => clearInterval(interval);
+  }, [isConnected]);
+
+  // The server doesn't replay events missed while disconnected, so catch up on reconnect
+  useEffect(() => {
+    if (isConnected && !wasConnectedRef.current) {
+      loadData();
+    }
+    wasConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  // Real-time updates pushed by the server
+  useEffect(() => {
+    const unsubscribeNew = subscribe('message:new', (message: Message) => {
+      const isIncoming = message.sender._id !== user?.id;
+      const lastMessage = {
+        content: message.content,
+        isRead: !isIncoming,
+        createdAt: message.createdAt,
+        media: message.media ? { type: message.media.type } : undefined,
+      };
+
+      if (message.group) {
+        const groupId = typeof message.group === 'string' ? message.group : message.group._id;
+        if (!groupsRef.current.some(group => group._id === groupId)) {
+          loadData();
+          return;
+        }
+        setGroups(prev => moveToTop(prev, groupId, group => ({
+          ...group,
+          lastMessage,
+          unreadCount: group.unreadCount + (isIncoming ? 1 : 0),
+        })));
+      } else {
+        const otherUserId = isIncoming
+          ? message.sender._id
+          : (typeof message.receiver === 'string' ? message.receiver : message.receiver?._id);
+        if (!otherUserId) return;
+        if (!conversationsRef.current.some(conversation => conversation._id === otherUserId)) {
+          // New conversation - we need the other user's details
+          loadData();
+          return;
+        }
+        setConversations(prev => moveToTop(prev, otherUserId, conversation => ({
+          ...conversation,
+          lastMessage,
+          unreadCount: conversation.unreadCount + (isIncoming ? 1 : 0),
+        })));
+      }
+
+      if (isIncoming) {
+        setTotalUnreadCount(prev => prev + 1);
+      }
+    });
+
+    const unsubscribeGroupUpdated = subscribe('group:updated', (group: Group) => {
+      setGroups(prev => {
+        const existing = prev.find(item => item._id === group._id);
+        if (!existing) {
+          return [{ ...group, lastMessage: null, unreadCount: 0 }, ...prev];
+        }
+        return prev.map(item =>
+          item._id === group._id
+            ? { ...item, ...group, lastMessage: existing.lastMessage, unreadCount: existing.unreadCount }
+            : item
+        );
+      });
+    });
+
+    const handleGroupGone = ({ groupId }: { groupId: string }) => {
+      setGroups(prev => prev.filter(group => group._id !== groupId));
+    };
+    const unsubscribeGroupRemoved = subscribe('group:removed', handleGroupGone);
+    const unsubscribeGroupDeleted = subscribe('group:deleted', handleGroupGone);
+
+    return () => {
+      unsubscribeNew();
+      unsubscribeGroupUpdated();
+      unsubscribeGroupRemoved();
+      unsubscribeGroupDeleted();
+    };
+  }, [subscribe, user?.id]);
+
+  // Apply an update to one item and move it to the front (most recent first)
+  const moveToTop = <T extends { _id: string }>(items: T[], id: string, update: (item: T) => T): T[] => {
+    const item = items.find(entry => entry._id === id);
+    if (!item) return items;
+    return [update(item), ...items.filter(entry => entry._id !== id)];
+  };
+
   const loadData = async () => {
     try {
       const [conversationsData, groupsData, unreadData] = await Promise.all([
@@ -63,6 +188,7 @@ export default function ConversationsScreen({ navigation }: any) {
       setConversations(sortedConversations);
       setGroups(sortedGroups);
       setTotalUnreadCount(unreadData.totalUnread || 0);
+      loadPresence(sortedConversations.map(conversation => conversation._id));
     } catch (error) {
       console.error('Error loading conversations:', error);
     } finally {
@@ -71,6 +197,23 @@ export default function ConversationsScreen({ navigation }: any) {
     }
   };
 
+  const loadPresence = async (userIds: string[]) => {
+    if (userIds.length === 0) return;
+    try {
+      // The endpoint accepts up to 100 users; the most recent conversations come first
+      const presenceData: UserPresence[] = await usersAPI.getPresence(userIds.slice(0, 100));
+      setPresence(prev => {
+        const next = { ...prev };
+        presenceData.forEach(entry => {
+          next[entry.userId] = entry;
+        });
+        return next;
+      });
+    } catch (error) {
+      console.error('Error loading presence:', error);
+    }
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadData();
@@ -78,6 +221,7 @@ export default function ConversationsScreen({ navigation }: any) {
 
   const renderConversationItem = ({ item }: { item: Conversation }) => {
     const timeAgo = formatDistanceToNow(new Date(item.lastMessage.createdAt), { addSuffix: true });
+    const userPresence = presence[item._id];
     
     return (
       <TouchableOpacity
@@ -101,6 +245,12 @@ export default function ConversationsScreen({ navigation }: any) {
               </Text>
             </View>
           )}
+          {userPresence?.isOnline && (
+            <View
+              style={[styles.onlineDot, { backgroundColor: theme.colors.success, borderColor: theme.colors.background }]}
+              accessibilityLabel="Online"
+            />
+          )}
         </View>
         <View style={styles.conversationContent}>
           <View style={styles.conversationHeader}>
@@ -110,8 +260,13 @@ export default function ConversationsScreen({ navigation }: any) {
             <Text style={[styles.time, { color: theme.colors.textTertiary }]}>{timeAgo}</Text>
           </View>
           <Text style={[styles.lastMessage, { color: theme.colors.textSecondary }]} numberOfLines={1}>
-            {item.lastMessage.content}
+            {getLastMessagePreview(item.lastMessage)}
           </Text>
+          {!userPresence?.isOnline && userPresence?.lastSeen && (
+            <Text style={[styles.lastSeen, { color: theme.colors.textTertiary }]} numberOfLines={1}>
+              last seen {formatDistanceToNow(new Date(userPresence.lastSeen), { addSuffix: true })}
+            </Text>
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -150,7 +305,7 @@ export default function ConversationsScreen({ navigation }: any) {
           </View>
           {item.lastMessage && (
             <Text style={[styles.lastMessage, { color: theme.colors.textSecondary }]} numberOfLines={1}>
-              {item.lastMessage.content}
+              {getLastMessagePreview(item.lastMessage)}
             </Text>
           )}
         </View>
@@ -179,6 +334,7 @@ export default function ConversationsScreen({ navigation }: any) {
           }
         }}
         showHomeButton={false}
+        onSearchPress={() => navigation.navigate('Search')}
         unreadCount={totalUnreadCount}
       />
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -363,6 +519,15 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  onlineDot: {
+    position: 'absolute',
+    bottom: 1,
+    right: 1,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+  },
   conversationContent: {
     flex: 1,
     justifyContent: 'center',
@@ -384,6 +549,10 @@ const styles = StyleSheet.create({
   lastMessage: {
     fontSize: 14,
   },
+  lastSeen: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
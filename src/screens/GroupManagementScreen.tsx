@@ -10,14 +10,43 @@ import {
   Image,
   Alert,
   ScrollView,
+  Switch,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
+import { useSocket } from '../context/SocketContext';
 import { messagesAPI, usersAPI } from '../config/api';
-import { Group } from '../types/message';
+import { getInviteLink } from '../config/invites';
+import { Group, GroupAction, GroupInvite, GroupJoinRequest } from '../types/message';
 import Header from '../components/Header';
-import { UserPlus, UserMinus, Users } from 'lucide-react-native';
+import MessageActionsSheet, { MessageAction } from '../components/MessageActionsSheet';
+import { format } from 'date-fns';
+import { UserPlus, UserMinus, Users, MoreVertical, LogOut, Link, Share2, X, Check } from 'lucide-react-native';
+
+const INVITE_EXPIRY_OPTIONS = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 7 * 24 },
+  { label: '30 days', hours: 30 * 24 },
+];
+
+const INVITE_MAX_USES_OPTIONS: Array<{ label: string; maxUses: number | null }> = [
+  { label: 'No limit', maxUses: null },
+  { label: '1 use', maxUses: 1 },
+  { label: '10 uses', maxUses: 10 },
+  { label: '50 uses', maxUses: 50 },
+];
+
+// e.g. "Expires Mar 4 · 3/10 uses · Approval required"
+const getInviteDetails = (invite: GroupInvite): string =>
+  [
+    `Expires ${format(new Date(invite.expiresAt), 'MMM d, h:mm a')}`,
+    invite.maxUses ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} use${invite.uses !== 1 ? 's' : ''}`,
+    invite.requiresApproval ? 'Approval required' : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
 
 interface GroupManagementScreenProps {
   navigation: any;
@@ -32,7 +61,12 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
   const { groupId } = route.params;
   const { user } = useAuth();
   const { theme } = useTheme();
+  const { subscribe } = useSocket();
   const [group, setGroup] = useState<Group | null>(null);
+  const [allowedActions, setAllowedActions] = useState<GroupAction[]>([]);
+  // Member whose admin actions sheet is open
+  const [selectedMember, setSelectedMember] = useState<Group['members'][number] | null>(null);
+  const [isLeaving, setIsLeaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isAdding, setIsAdding] = useState(false);
   const [showAddMembers, setShowAddMembers] = useState(false);
@@ -40,11 +74,27 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
   const [availableUsers, setAvailableUsers] = useState<any[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [isLoadingUsers, setIsLoadingUsers] = useState(false);
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [joinRequests, setJoinRequests] = useState<GroupJoinRequest[]>([]);
+  const [showCreateInvite, setShowCreateInvite] = useState(false);
+  const [inviteExpiryHours, setInviteExpiryHours] = useState(INVITE_EXPIRY_OPTIONS[1].hours);
+  const [inviteMaxUses, setInviteMaxUses] = useState<number | null>(null);
+  const [inviteRequiresApproval, setInviteRequiresApproval] = useState(false);
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
 
   useEffect(() => {
     loadGroup();
   }, [groupId]);
 
+  // Requests arriving or being handled by another admin while the screen is open
+  useEffect(() => {
+    return subscribe('group:join_requests', (event: { groupId: string }) => {
+      if (event.groupId === groupId) {
+        loadJoinRequests();
+      }
+    });
+  }, [subscribe, groupId]);
+
   useEffect(() => {
     if (showAddMembers && group) {
       if (searchQuery.length > 0) {
@@ -61,9 +111,19 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
   const loadGroup = async () => {
     try {
       setIsLoading(true);
-      const groups = await messagesAPI.getGroups();
+      const [groups, actions] = await Promise.all([
+        messagesAPI.getGroups(),
+        messagesAPI.getGroupPermissions(groupId),
+      ]);
       const foundGroup = groups.find((g: Group) => g._id === groupId);
       setGroup(foundGroup || null);
+      setAllowedActions(actions);
+      if (foundGroup) {
+        await Promise.all([
+          actions.includes('manage_invites') && loadInvites(),
+          actions.includes('add_members') && loadJoinRequests(),
+        ]);
+      }
     } catch (error) {
       console.error('Error loading group:', error);
       Alert.alert('Error', 'Failed to load group information');
@@ -72,6 +132,22 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
     }
   };
 
+  const loadInvites = async () => {
+    try {
+      setInvites(await messagesAPI.getGroupInvites(groupId));
+    } catch (error) {
+      console.error('Error loading invites:', error);
+    }
+  };
+
+  const loadJoinRequests = async () => {
+    try {
+      setJoinRequests(await messagesAPI.getGroupJoinRequests(groupId));
+    } catch (error) {
+      console.error('Error loading join requests:', error);
+    }
+  };
+
   const loadAvailableUsers = async () => {
     try {
       setIsLoadingUsers(true);
@@ -87,16 +163,8 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
     }
   };
 
-  const canManageMembers = (): boolean => {
-    if (!user || !group) return false;
-    
-    const userRole = user.role;
-    const isAdminOrOrganization = userRole === 'admin' || userRole === 'organization';
-    const isGroupAdmin = group.admins?.some(admin => admin._id === user.id) || false;
-    const isGroupCreator = group.createdBy === user.id;
-    
-    return isAdminOrOrganization || isGroupAdmin || isGroupCreator;
-  };
+  // The server decides what the current user may do with this group
+  const can = (action: GroupAction): boolean => allowedActions.includes(action);
 
   const handleAddMembers = async () => {
     if (selectedUsers.length === 0) {
@@ -142,6 +210,148 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
     );
   };
 
+  // Run an admin or ownership change, then reload the group and what we may now do with it
+  const runMemberChange = async (change: () => Promise<any>, failureMessage: string) => {
+    try {
+      await change();
+      await loadGroup();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || error.message || failureMessage);
+    }
+  };
+
+  const confirmTransferOwnership = (member: Group['members'][number]) => {
+    Alert.alert(
+      'Transfer Ownership',
+      `Make ${member.name} the owner of this group? You will stay an admin.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Transfer',
+          onPress: () =>
+            runMemberChange(
+              () => messagesAPI.transferGroupOwnership(groupId, member._id),
+              'Failed to transfer ownership'
+            ),
+        },
+      ]
+    );
+  };
+
+  const getMemberActions = (member: Group['members'][number]): MessageAction[] => {
+    const isAdmin = group?.admins?.some(admin => admin._id === member._id) || false;
+    const isOwner = group?.createdBy === member._id;
+    const actions: MessageAction[] = [];
+
+    if (can('manage_admins') && !isAdmin) {
+      actions.push({
+        label: 'Make admin',
+        onPress: () =>
+          runMemberChange(() => messagesAPI.promoteGroupAdmin(groupId, member._id), 'Failed to make admin'),
+      });
+    }
+    if (can('manage_admins') && isAdmin && !isOwner) {
+      actions.push({
+        label: member._id === user?.id ? 'Step down as admin' : 'Remove as admin',
+        onPress: () =>
+          runMemberChange(() => messagesAPI.demoteGroupAdmin(groupId, member._id), 'Failed to remove admin'),
+        destructive: true,
+      });
+    }
+    if (can('transfer_ownership') && !isOwner) {
+      actions.push({ label: 'Make group owner', onPress: () => confirmTransferOwnership(member) });
+    }
+    return actions;
+  };
+
+  const shareInvite = async (invite: GroupInvite) => {
+    try {
+      await Share.share({
+        message: `Join ${group?.name || 'our group'} on iLeap: ${getInviteLink(invite.code)}`,
+      });
+    } catch (error) {
+      console.error('Error sharing invite:', error);
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      setIsCreatingInvite(true);
+      const invite = await messagesAPI.createGroupInvite(groupId, {
+        expiresInHours: inviteExpiryHours,
+        maxUses: inviteMaxUses,
+        requiresApproval: inviteRequiresApproval,
+      });
+      setInvites(prev => [invite, ...prev]);
+      setShowCreateInvite(false);
+      shareInvite(invite);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to create invite');
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const confirmRevokeInvite = (invite: GroupInvite) => {
+    Alert.alert(
+      'Revoke Invite',
+      `Revoke invite ${invite.code}? The link will stop working for anyone who hasn't used it yet.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await messagesAPI.revokeGroupInvite(groupId, invite._id);
+              setInvites(prev => prev.filter(item => item._id !== invite._id));
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to revoke invite');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const reviewJoinRequest = async (request: GroupJoinRequest, decision: 'accept' | 'reject') => {
+    try {
+      await messagesAPI.reviewGroupJoinRequest(groupId, request._id, decision);
+      setJoinRequests(prev => prev.filter(item => item._id !== request._id));
+      if (decision === 'accept') {
+        await loadGroup();
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || error.message || `Failed to ${decision} request`);
+      loadJoinRequests();
+    }
+  };
+
+  const confirmLeaveGroup = () => {
+    Alert.alert(
+      'Leave Group',
+      `Leave ${group?.name || 'this group'}? You will stop receiving its messages and notifications.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            setIsLeaving(true);
+            try {
+              await messagesAPI.leaveGroup(groupId);
+              navigation.navigate('Conversations');
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to leave group');
+            } finally {
+              setIsLeaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const toggleUserSelection = (userId: string) => {
     setSelectedUsers(prev =>
       prev.includes(userId)
@@ -175,7 +385,10 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
 
   const renderMemberItem = ({ item }: { item: any }) => {
     const isAdmin = group?.admins?.some(admin => admin._id === item._id) || false;
-    const canRemove = canManageMembers() && item._id !== user?.id;
+    const isOwner = group?.createdBy === item._id;
+    // The owner has to hand the group over before they can be removed
+    const canRemove = can('remove_members') && item._id !== user?.id && !isOwner;
+    const hasMemberActions = getMemberActions(item).length > 0;
 
     return (
       <View style={[styles.memberItem, { borderBottomColor: theme.colors.border }]}>
@@ -192,6 +405,11 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
           <View style={styles.memberDetails}>
             <View style={styles.memberNameRow}>
               <Text style={[styles.memberName, { color: theme.colors.text }]}>{item.name}</Text>
+              {isOwner && (
+                <View style={[styles.adminBadge, { backgroundColor: theme.colors.text }]}>
+                  <Text style={[styles.adminBadgeText, { color: theme.colors.background }]}>Owner</Text>
+                </View>
+              )}
               {isAdmin && (
                 <View style={[styles.adminBadge, { backgroundColor: theme.colors.primary }]}>
                   <Text style={styles.adminBadgeText}>Admin</Text>
@@ -203,14 +421,26 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
             </Text>
           </View>
         </View>
-        {canRemove && (
-          <TouchableOpacity
-            style={[styles.removeButton, { backgroundColor: theme.colors.error }]}
-            onPress={() => handleRemoveMember(item._id, item.name)}
-          >
-            <UserMinus size={18} color="#fff" />
-          </TouchableOpacity>
-        )}
+        <View style={styles.memberButtons}>
+          {hasMemberActions && (
+            <TouchableOpacity
+              style={styles.moreButton}
+              onPress={() => setSelectedMember(item)}
+              accessibilityRole="button"
+              accessibilityLabel={`Admin options for ${item.name}`}
+            >
+              <MoreVertical size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+          {canRemove && (
+            <TouchableOpacity
+              style={[styles.removeButton, { backgroundColor: theme.colors.error }]}
+              onPress={() => handleRemoveMember(item._id, item.name)}
+            >
+              <UserMinus size={18} color="#fff" />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
     );
   };
@@ -253,6 +483,89 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
     );
   };
 
+  const renderJoinRequestItem = ({ item }: { item: GroupJoinRequest }) => (
+    <View style={[styles.memberItem, { borderBottomColor: theme.colors.border }]}>
+      <View style={styles.memberInfo}>
+        <View style={styles.avatarContainer}>
+          {item.user.image ? (
+            <Image source={{ uri: item.user.image }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatarPlaceholder, { backgroundColor: getAvatarColor(item.user.name) }]}>
+              <Text style={styles.avatarText}>{getInitials(item.user.name)}</Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.memberDetails}>
+          <Text style={[styles.memberName, { color: theme.colors.text }]}>{item.user.name}</Text>
+          <Text style={[styles.memberRole, { color: theme.colors.textSecondary }]}>
+            Asked {format(new Date(item.createdAt), 'MMM d, h:mm a')}
+          </Text>
+        </View>
+      </View>
+      <View style={styles.memberButtons}>
+        <TouchableOpacity
+          style={[styles.removeButton, { backgroundColor: theme.colors.error }]}
+          onPress={() => reviewJoinRequest(item, 'reject')}
+          accessibilityRole="button"
+          accessibilityLabel={`Reject ${item.user.name}`}
+        >
+          <X size={18} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.removeButton, { backgroundColor: theme.colors.primary }]}
+          onPress={() => reviewJoinRequest(item, 'accept')}
+          accessibilityRole="button"
+          accessibilityLabel={`Accept ${item.user.name}`}
+        >
+          <Check size={18} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderInviteItem = ({ item }: { item: GroupInvite }) => (
+    <View style={[styles.memberItem, { borderBottomColor: theme.colors.border }]}>
+      <View style={styles.memberDetails}>
+        <Text style={[styles.inviteCode, { color: theme.colors.text }]}>{item.code}</Text>
+        <Text style={[styles.memberRole, { color: theme.colors.textSecondary }]}>{getInviteDetails(item)}</Text>
+      </View>
+      <View style={styles.memberButtons}>
+        <TouchableOpacity
+          style={styles.moreButton}
+          onPress={() => shareInvite(item)}
+          accessibilityRole="button"
+          accessibilityLabel={`Share invite ${item.code}`}
+        >
+          <Share2 size={20} color={theme.colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.moreButton}
+          onPress={() => confirmRevokeInvite(item)}
+          accessibilityRole="button"
+          accessibilityLabel={`Revoke invite ${item.code}`}
+        >
+          <X size={20} color={theme.colors.error} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderOptionChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: theme.colors.border },
+        isActive && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isActive }}
+    >
+      <Text style={[styles.chipText, { color: isActive ? '#fff' : theme.colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]} edges={['top']}>
@@ -283,7 +596,7 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
     );
   }
 
-  const hasManagePermission = canManageMembers();
+  const canAddMembers = can('add_members');
   const members = group.members || [];
 
   return (
@@ -309,7 +622,7 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
           </View>
         </View>
 
-        {hasManagePermission && (
+        {canAddMembers && (
           <TouchableOpacity
             style={[styles.addButton, { backgroundColor: theme.colors.primary }]}
             onPress={() => {
@@ -326,7 +639,7 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
           </TouchableOpacity>
         )}
 
-        {showAddMembers && hasManagePermission && (
+        {showAddMembers && canAddMembers && (
           <View style={[styles.addMembersSection, { backgroundColor: theme.colors.card }]}>
             <View style={[styles.searchContainer, { borderBottomColor: theme.colors.border }]}>
               <TextInput
@@ -387,6 +700,96 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
           </View>
         )}
 
+        {canAddMembers && joinRequests.length > 0 && (
+          <View style={styles.membersSection}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Join Requests ({joinRequests.length})
+            </Text>
+            <FlatList
+              data={joinRequests}
+              renderItem={renderJoinRequestItem}
+              keyExtractor={(item) => item._id}
+              scrollEnabled={false}
+            />
+          </View>
+        )}
+
+        {can('manage_invites') && (
+          <View style={styles.membersSection}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Invite Links</Text>
+            <FlatList
+              data={invites}
+              renderItem={renderInviteItem}
+              keyExtractor={(item) => item._id}
+              scrollEnabled={false}
+              ListEmptyComponent={
+                <Text style={[styles.inviteHint, { color: theme.colors.textTertiary }]}>
+                  Anyone with an invite link can join without being added one by one.
+                </Text>
+              }
+            />
+
+            {showCreateInvite ? (
+              <View style={[styles.createInviteSection, { backgroundColor: theme.colors.card }]}>
+                <Text style={[styles.optionLabel, { color: theme.colors.textSecondary }]}>Expires after</Text>
+                <View style={styles.chipRow}>
+                  {INVITE_EXPIRY_OPTIONS.map(option =>
+                    renderOptionChip(option.label, inviteExpiryHours === option.hours, () =>
+                      setInviteExpiryHours(option.hours)
+                    )
+                  )}
+                </View>
+                <Text style={[styles.optionLabel, { color: theme.colors.textSecondary }]}>Max uses</Text>
+                <View style={styles.chipRow}>
+                  {INVITE_MAX_USES_OPTIONS.map(option =>
+                    renderOptionChip(option.label, inviteMaxUses === option.maxUses, () =>
+                      setInviteMaxUses(option.maxUses)
+                    )
+                  )}
+                </View>
+                <View style={styles.switchRow}>
+                  <Text style={[styles.memberName, { color: theme.colors.text }]}>Approve new members</Text>
+                  <Switch
+                    value={inviteRequiresApproval}
+                    onValueChange={setInviteRequiresApproval}
+                    trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                    thumbColor={inviteRequiresApproval ? '#fff' : '#f4f3f4'}
+                  />
+                </View>
+                <View style={styles.memberButtons}>
+                  <TouchableOpacity
+                    style={[styles.inviteButton, { borderColor: theme.colors.border }]}
+                    onPress={() => setShowCreateInvite(false)}
+                    disabled={isCreatingInvite}
+                  >
+                    <Text style={[styles.inviteButtonText, { color: theme.colors.text }]}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.inviteButton, { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary }]}
+                    onPress={handleCreateInvite}
+                    disabled={isCreatingInvite}
+                  >
+                    {isCreatingInvite ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <Text style={[styles.inviteButtonText, { color: '#fff' }]}>Create Link</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={[styles.leaveButton, styles.createInviteButton, { borderColor: theme.colors.primary }]}
+                onPress={() => setShowCreateInvite(true)}
+                accessibilityRole="button"
+              >
+                <Link size={20} color={theme.colors.primary} />
+                <Text style={[styles.leaveButtonText, { color: theme.colors.primary }]}>Create Invite Link</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         <View style={styles.membersSection}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Members</Text>
           <FlatList
@@ -403,7 +806,36 @@ export default function GroupManagementScreen({ navigation, route }: GroupManage
             }
           />
         </View>
+
+        {can('leave_group') && (
+          <TouchableOpacity
+            style={[styles.leaveButton, { borderColor: theme.colors.error }]}
+            onPress={confirmLeaveGroup}
+            disabled={isLeaving}
+            accessibilityRole="button"
+          >
+            {isLeaving ? (
+              <ActivityIndicator color={theme.colors.error} />
+            ) : (
+              <>
+                <LogOut size={20} color={theme.colors.error} />
+                <Text style={[styles.leaveButtonText, { color: theme.colors.error }]}>Leave Group</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
       </ScrollView>
+      <MessageActionsSheet
+        visible={!!selectedMember}
+        actions={selectedMember ? getMemberActions(selectedMember) : []}
+        onClose={() => setSelectedMember(null)}
+      >
+        {selectedMember && (
+          <Text style={[styles.sheetTitle, { color: theme.colors.text, borderBottomColor: theme.colors.border }]}>
+            {selectedMember.name}
+          </Text>
+        )}
+      </MessageActionsSheet>
     </SafeAreaView>
   );
 }
@@ -450,6 +882,20 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     gap: 8,
   },
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    margin: 16,
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 8,
+  },
+  leaveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   addButtonText: {
     color: '#fff',
     fontSize: 16,
@@ -547,6 +993,79 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '600',
   },
+  sheetTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  inviteCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 2,
+    marginBottom: 4,
+  },
+  inviteHint: {
+    fontSize: 14,
+    paddingVertical: 8,
+  },
+  createInviteButton: {
+    marginHorizontal: 0,
+  },
+  createInviteSection: {
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 8,
+  },
+  optionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 12,
+  },
+  inviteButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  inviteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  memberButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  moreButton: {
+    padding: 6,
+  },
   removeButton: {
     padding: 8,
     borderRadius: 6,
@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import { Users } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { messagesAPI } from '../config/api';
+import { InvitePreview } from '../types/message';
+import Header from '../components/Header';
+
+// Preview of the group behind an invite link, with the button to join it
+export default function JoinGroupScreen({ route, navigation }: any) {
+  const { code } = route.params;
+  const { theme } = useTheme();
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    loadPreview();
+  }, [code]);
+
+  const loadPreview = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPreview(await messagesAPI.getInvitePreview(code));
+    } catch (error: any) {
+      setError(error.response?.data?.error || error.message || 'Failed to load invite');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openGroup = (groupId: string) => {
+    navigation.replace('Chat', { userId: groupId, isGroup: true });
+  };
+
+  const handleJoin = async () => {
+    if (!preview) return;
+    if (preview.isMember) {
+      openGroup(preview.group._id);
+      return;
+    }
+
+    try {
+      setIsJoining(true);
+      const result = await messagesAPI.joinGroupWithInvite(code);
+      if (result.status === 'joined') {
+        openGroup(result.groupId);
+        return;
+      }
+      setPreview({ ...preview, hasPendingRequest: true });
+      Alert.alert('Request Sent', `The admins of ${preview.group.name} will review your request to join.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to join group');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const getJoinLabel = (invite: InvitePreview): string => {
+    if (invite.isMember) return 'Open Group';
+    if (invite.hasPendingRequest) return 'Request Sent';
+    return invite.requiresApproval ? 'Request to Join' : 'Join Group';
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={theme.colors.primary} />;
+    }
+
+    if (!preview) {
+      return (
+        <>
+          <Text style={[styles.title, { color: theme.colors.text }]}>Invite unavailable</Text>
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>{error}</Text>
+          <TouchableOpacity
+            style={[styles.joinButton, { backgroundColor: theme.colors.primary }]}
+            onPress={() => navigation.navigate('Conversations')}
+          >
+            <Text style={styles.joinButtonText}>Go to Messages</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    const { group } = preview;
+    const isDisabled = isJoining || (!preview.isMember && preview.hasPendingRequest);
+
+    return (
+      <>
+        {group.avatar ? (
+          <Image source={{ uri: group.avatar }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatarPlaceholder, { backgroundColor: theme.colors.primary }]}>
+            <Text style={styles.avatarText}>{group.name.charAt(0).toUpperCase()}</Text>
+          </View>
+        )}
+        <Text style={[styles.title, { color: theme.colors.text }]}>{group.name}</Text>
+        {group.description && (
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>{group.description}</Text>
+        )}
+        <View style={styles.memberCount}>
+          <Users size={16} color={theme.colors.textSecondary} />
+          <Text style={[styles.memberCountText, { color: theme.colors.textSecondary }]}>
+            {group.memberCount} member{group.memberCount !== 1 ? 's' : ''}
+          </Text>
+        </View>
+        {!preview.isMember && (
+          <Text style={[styles.note, { color: theme.colors.textTertiary }]}>
+            {preview.requiresApproval ? 'An admin needs to approve new members. ' : ''}
+            Invite expires {format(new Date(preview.expiresAt), 'MMM d, yyyy h:mm a')}
+          </Text>
+        )}
+        <TouchableOpacity
+          style={[
+            styles.joinButton,
+            { backgroundColor: theme.colors.primary },
+            isDisabled && styles.joinButtonDisabled,
+          ]}
+          onPress={handleJoin}
+          disabled={isDisabled}
+          accessibilityRole="button"
+        >
+          {isJoining ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.joinButtonText}>{getJoinLabel(preview)}</Text>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Header
+        title="Group Invite"
+        onMenuPress={() => navigation.canGoBack() ? navigation.goBack() : navigation.navigate('Conversations')}
+        isMenuOpen={false}
+      />
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {renderContent()}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    marginBottom: 16,
+  },
+  avatarPlaceholder: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 40,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  memberCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  memberCountText: {
+    fontSize: 14,
+  },
+  note: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  joinButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    padding: 14,
+    borderRadius: 8,
+  },
+  joinButtonDisabled: {
+    opacity: 0.6,
+  },
+  joinButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
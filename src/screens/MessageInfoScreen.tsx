@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  StyleSheet,
+  ActivityIndicator,
+  Image,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import { useTheme } from '../context/ThemeContext';
+import { messagesAPI } from '../config/api';
+import { Group, MessageReaders } from '../types/message';
+import Header from '../components/Header';
+
+type Member = Group['members'][number];
+
+interface ReaderRow {
+  user: Member;
+  readAt?: string;
+}
+
+// Text shown for the message at the top of the screen
+const getMessageText = (message: MessageReaders['message']): string => {
+  if (message.content) return message.content;
+  if (message.media?.type === 'video') return '🎥 Video';
+  if (message.media?.type === 'image') return '📷 Photo';
+  return '';
+};
+
+// Read receipts for one group message: who has seen it and who hasn't yet
+export default function MessageInfoScreen({ route, navigation }: any) {
+  const { groupId, messageId } = route.params;
+  const { theme } = useTheme();
+  const [info, setInfo] = useState<MessageReaders | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadInfo();
+  }, [groupId, messageId]);
+
+  const loadInfo = async () => {
+    try {
+      const data = await messagesAPI.getMessageReaders(groupId, messageId);
+      setInfo(data);
+    } catch (error) {
+      console.error('Error loading message info:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadInfo();
+  };
+
+  const renderMember = ({ item }: { item: ReaderRow }) => (
+    <View style={[styles.memberItem, { borderBottomColor: theme.colors.border }]}>
+      {item.user.image ? (
+        <Image source={{ uri: item.user.image }} style={styles.avatar} />
+      ) : (
+        <View style={[styles.avatarPlaceholder, { backgroundColor: theme.colors.primary }]}>
+          <Text style={styles.avatarText}>{item.user.name.charAt(0).toUpperCase()}</Text>
+        </View>
+      )}
+      <View style={styles.memberInfo}>
+        <Text style={[styles.memberName, { color: theme.colors.text }]}>{item.user.name}</Text>
+        {item.user.role && (
+          <Text style={[styles.memberRole, { color: theme.colors.textSecondary }]}>
+            {item.user.role.charAt(0).toUpperCase() + item.user.role.slice(1)}
+          </Text>
+        )}
+      </View>
+      {item.readAt && (
+        <Text style={[styles.readAt, { color: theme.colors.textTertiary }]}>
+          {format(new Date(item.readAt), 'MMM d, h:mm a')}
+        </Text>
+      )}
+    </View>
+  );
+
+  if (isLoading || !info) {
+    return (
+      <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]} edges={['top']}>
+        <Header
+          title="Message Info"
+          onMenuPress={() => navigation.goBack()}
+          isMenuOpen={false}
+        />
+        <View style={[styles.centerContainer, { backgroundColor: theme.colors.background }]}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          ) : (
+            <Text style={[styles.emptyText, { color: theme.colors.text }]}>Message not found</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const sections = [
+    {
+      title: `Read by ${info.readers.length}`,
+      data: info.readers.map(reader => ({ user: reader.user, readAt: reader.readAt })),
+    },
+    {
+      title: `Not read yet ${info.unread.length}`,
+      data: info.unread.map(member => ({ user: member })),
+    },
+  ];
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Header
+        title="Message Info"
+        onMenuPress={() => navigation.goBack()}
+        isMenuOpen={false}
+      />
+      <SectionList
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        sections={sections}
+        keyExtractor={(item) => item.user._id}
+        renderItem={renderMember}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+        ListHeaderComponent={
+          <View style={[styles.messagePreview, { borderBottomColor: theme.colors.border, backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.messageSender, { color: theme.colors.textSecondary }]}>
+              {info.message.sender.name} · {format(new Date(info.message.createdAt), 'MMM d, yyyy h:mm a')}
+            </Text>
+            <Text style={[styles.messageText, { color: theme.colors.text }]} numberOfLines={4}>
+              {getMessageText(info.message)}
+            </Text>
+          </View>
+        }
+        renderSectionHeader={({ section }) => (
+          <Text
+            style={[
+              styles.sectionTitle,
+              { color: theme.colors.text, backgroundColor: theme.colors.background, borderBottomColor: theme.colors.border },
+            ]}
+          >
+            {section.title}
+          </Text>
+        )}
+        renderSectionFooter={({ section }) =>
+          section.data.length === 0 ? (
+            <Text style={[styles.sectionEmpty, { color: theme.colors.textTertiary }]}>Nobody</Text>
+          ) : null
+        }
+        stickySectionHeadersEnabled={false}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  messagePreview: {
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  messageSender: {
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  messageText: {
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+  },
+  sectionEmpty: {
+    fontSize: 14,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  memberRole: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  readAt: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+  },
+});
@@ -7,31 +7,60 @@ import {
   Image,
   ActivityIndicator,
   RefreshControl,
+  TouchableOpacity,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
-import { authAPI } from '../config/api';
+import { authAPI, usersAPI } from '../config/api';
+import { getDeviceTimeZone } from '../config/device';
+import { DeviceSession, QuietHours } from '../types/message';
+import { formatDistanceToNow } from 'date-fns';
 import Header from '../components/Header';
 import MenuDrawer from '../components/MenuDrawer';
-import { Switch } from 'react-native';
-import { Moon, Sun } from 'lucide-react-native';
+import { Switch, Alert } from 'react-native';
+import { Moon, Sun, EyeOff, Smartphone, Monitor, LogOut, BellOff, Minus, Plus } from 'lucide-react-native';
+
+const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '07:00', delivery: 'silent' };
+
+// Quiet hours start and end move in steps of this many minutes
+const QUIET_HOURS_STEP_MINUTES = 30;
+
+// Move an "HH:mm" time by some minutes, wrapping around midnight
+const shiftTime = (value: string, minutes: number): string => {
+  const [hours, mins] = value.split(':').map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
 
 export default function ProfileScreen({ navigation }: any) {
-  const { user: authUser, refreshSession } = useAuth();
+  const { user: authUser, refreshSession, signOutEverywhere } = useAuth();
   const { theme, setThemeMode, toggleTheme } = useTheme();
   const [user, setUser] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSavingPrivacy, setIsSavingPrivacy] = useState(false);
+  const [isSavingQuietHours, setIsSavingQuietHours] = useState(false);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
 
   useEffect(() => {
     loadProfile();
   }, []);
 
+  const loadSessions = async () => {
+    try {
+      setSessions(await authAPI.getSessions());
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
   const loadProfile = async () => {
     try {
       setIsLoading(true);
+      loadSessions();
       const currentUser = await authAPI.getCurrentUser();
       if (currentUser) {
         setUser(currentUser);
@@ -48,6 +77,83 @@ export default function ProfileScreen({ navigation }: any) {
     }
   };
 
+  const toggleHideLastSeen = async (hideLastSeen: boolean) => {
+    setIsSavingPrivacy(true);
+    setUser((prev: any) => ({ ...(prev || authUser), hide_last_seen: hideLastSeen }));
+    try {
+      await usersAPI.updateSettings({ hide_last_seen: hideLastSeen });
+    } catch (error: any) {
+      setUser((prev: any) => ({ ...(prev || authUser), hide_last_seen: !hideLastSeen }));
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to update privacy settings');
+    } finally {
+      setIsSavingPrivacy(false);
+    }
+  };
+
+  // Saved with this device's timezone, so the window follows the user when they travel
+  const updateQuietHours = async (changes: Partial<QuietHours>) => {
+    const current: any = user || authUser;
+    const previous = { quiet_hours: current?.quiet_hours, timezone: current?.timezone };
+    const quietHours = { ...DEFAULT_QUIET_HOURS, ...current?.quiet_hours, ...changes };
+    const timezone = getDeviceTimeZone();
+    setIsSavingQuietHours(true);
+    setUser((prev: any) => ({ ...(prev || authUser), quiet_hours: quietHours, timezone }));
+    try {
+      await usersAPI.updateSettings({ quiet_hours: quietHours, timezone });
+    } catch (error: any) {
+      setUser((prev: any) => ({ ...(prev || authUser), ...previous }));
+      Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to update quiet hours');
+    } finally {
+      setIsSavingQuietHours(false);
+    }
+  };
+
+  const revokeSession = (session: DeviceSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out of ${session.deviceName || 'this device'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingSessionId(session.id);
+            try {
+              await authAPI.revokeSession(session.id);
+              setSessions(prev => prev.filter(s => s.id !== session.id));
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to sign out device');
+            } finally {
+              setRevokingSessionId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmSignOutEverywhere = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      'You will be signed out on every device, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out Everywhere',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await signOutEverywhere();
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.error || error.message || 'Failed to sign out everywhere');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadProfile();
@@ -70,6 +176,53 @@ export default function ProfileScreen({ navigation }: any) {
   }
 
   const displayUser = user || authUser;
+  const quietHours: QuietHours = { ...DEFAULT_QUIET_HOURS, ...displayUser?.quiet_hours };
+
+  const renderTimeStepper = (label: string, field: 'start' | 'end') => (
+    <View style={[styles.infoRow, { borderBottomColor: theme.colors.border }]}>
+      <Text style={[styles.infoLabel, { color: theme.colors.text }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepperButton, { borderColor: theme.colors.border }]}
+          onPress={() => updateQuietHours({ [field]: shiftTime(quietHours[field], -QUIET_HOURS_STEP_MINUTES) })}
+          disabled={isSavingQuietHours}
+          accessibilityRole="button"
+          accessibilityLabel={`${label} earlier`}
+        >
+          <Minus size={16} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: theme.colors.text }]}>{quietHours[field]}</Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, { borderColor: theme.colors.border }]}
+          onPress={() => updateQuietHours({ [field]: shiftTime(quietHours[field], QUIET_HOURS_STEP_MINUTES) })}
+          disabled={isSavingQuietHours}
+          accessibilityRole="button"
+          accessibilityLabel={`${label} later`}
+        >
+          <Plus size={16} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderDeliveryOption = (label: string, delivery: QuietHours['delivery']) => {
+    const isActive = quietHours.delivery === delivery;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.chip,
+          { borderColor: theme.colors.border },
+          isActive && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+        ]}
+        onPress={() => updateQuietHours({ delivery })}
+        disabled={isSavingQuietHours}
+        accessibilityRole="button"
+        accessibilityState={{ selected: isActive }}
+      >
+        <Text style={[styles.chipText, { color: isActive ? '#fff' : theme.colors.text }]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]} edges={['top']}>
@@ -128,6 +281,111 @@ export default function ProfileScreen({ navigation }: any) {
           </View>
         </View>
 
+        <View style={[styles.section, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Privacy</Text>
+
+          <View style={[styles.infoRow, { borderBottomColor: theme.colors.border }]}>
+            <View style={styles.themeToggleContainer}>
+              <EyeOff size={20} color={theme.colors.text} />
+              <View style={styles.settingTextContainer}>
+                <Text style={[styles.infoLabel, { color: theme.colors.text }]}>Hide Last Seen</Text>
+                <Text style={[styles.settingDescription, { color: theme.colors.textTertiary }]}>
+                  Others won't see when you're online or when you were last active
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={!!displayUser?.hide_last_seen}
+              onValueChange={toggleHideLastSeen}
+              disabled={isSavingPrivacy}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              thumbColor={displayUser?.hide_last_seen ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+        </View>
+
+        <View style={[styles.section, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Notifications</Text>
+
+          <View style={[styles.infoRow, { borderBottomColor: theme.colors.border }]}>
+            <View style={styles.themeToggleContainer}>
+              <BellOff size={20} color={theme.colors.text} />
+              <View style={styles.settingTextContainer}>
+                <Text style={[styles.infoLabel, { color: theme.colors.text }]}>Quiet Hours</Text>
+                <Text style={[styles.settingDescription, { color: theme.colors.textTertiary }]}>
+                  No sounds or banners from {quietHours.start} to {quietHours.end}
+                  {displayUser?.timezone ? ` (${displayUser.timezone})` : ''}
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={quietHours.enabled}
+              onValueChange={(enabled) => updateQuietHours({ enabled })}
+              disabled={isSavingQuietHours}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              thumbColor={quietHours.enabled ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+
+          {quietHours.enabled && (
+            <>
+              {renderTimeStepper('Starts', 'start')}
+              {renderTimeStepper('Ends', 'end')}
+              <View style={styles.chipRow}>
+                {renderDeliveryOption('Deliver silently', 'silent')}
+                {renderDeliveryOption('Send a summary after', 'summary')}
+              </View>
+            </>
+          )}
+        </View>
+
+        <View style={[styles.section, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Devices</Text>
+
+          {sessions.map(session => {
+            const DeviceIcon = session.platform === 'web' ? Monitor : Smartphone;
+            return (
+              <View key={session.id} style={[styles.infoRow, { borderBottomColor: theme.colors.border }]}>
+                <View style={styles.themeToggleContainer}>
+                  <DeviceIcon size={20} color={theme.colors.text} />
+                  <View style={styles.settingTextContainer}>
+                    <Text style={[styles.infoLabel, { color: theme.colors.text }]}>
+                      {session.deviceName || 'Unknown device'}
+                    </Text>
+                    <Text style={[styles.settingDescription, { color: theme.colors.textTertiary }]}>
+                      {session.current
+                        ? 'This device'
+                        : `Active ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}`}
+                    </Text>
+                  </View>
+                </View>
+                {!session.current && (
+                  revokingSessionId === session.id ? (
+                    <ActivityIndicator size="small" color={theme.colors.primary} />
+                  ) : (
+                    <TouchableOpacity
+                      onPress={() => revokeSession(session)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Sign out ${session.deviceName || 'device'}`}
+                    >
+                      <Text style={[styles.deviceAction, { color: theme.colors.error }]}>Sign out</Text>
+                    </TouchableOpacity>
+                  )
+                )}
+              </View>
+            );
+          })}
+
+          <TouchableOpacity
+            style={styles.signOutEverywhereButton}
+            onPress={confirmSignOutEverywhere}
+            accessibilityRole="button"
+          >
+            <LogOut size={18} color={theme.colors.error} />
+            <Text style={[styles.deviceAction, { color: theme.colors.error }]}>Sign out everywhere</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={[styles.section, { borderBottomColor: theme.colors.border }]}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Account Information</Text>
           
@@ -300,5 +558,58 @@ const styles = StyleSheet.create({
     gap: 8,
     flex: 1,
   },
+  settingTextContainer: {
+    flex: 1,
+    marginRight: 8,
+  },
+  settingDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  deviceAction: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    borderWidth: 1,
+    borderRadius: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '500',
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  signOutEverywhereButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 16,
+  },
 });
 
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X } from 'lucide-react-native';
+import { format, subDays, subMonths, subYears } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useTheme } from '../context/ThemeContext';
+import { messagesAPI } from '../config/api';
+import { MessageSearchResult, MessageSearchFilters } from '../types/message';
+import Header from '../components/Header';
+
+type DateRange = 'any' | 'week' | 'month' | 'year';
+
+const DATE_RANGES: Array<{ key: DateRange; label: string }> = [
+  { key: 'any', label: 'Any time' },
+  { key: 'week', label: 'Past week' },
+  { key: 'month', label: 'Past month' },
+  { key: 'year', label: 'Past year' },
+];
+
+const getRangeStart = (range: DateRange): string | undefined => {
+  const now = new Date();
+  switch (range) {
+    case 'week':
+      return subDays(now, 7).toISOString();
+    case 'month':
+      return subMonths(now, 1).toISOString();
+    case 'year':
+      return subYears(now, 1).toISOString();
+    default:
+      return undefined;
+  }
+};
+
+// Split a snippet into plain and highlighted parts
+const getSnippetParts = ({ snippet, highlights }: MessageSearchResult) => {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let position = 0;
+  highlights.forEach(({ start, length }) => {
+    if (start > position) {
+      parts.push({ text: snippet.substring(position, start), highlighted: false });
+    }
+    parts.push({ text: snippet.substring(start, start + length), highlighted: true });
+    position = start + length;
+  });
+  if (position < snippet.length) {
+    parts.push({ text: snippet.substring(position), highlighted: false });
+  }
+  return parts;
+};
+
+export default function SearchScreen({ route, navigation }: any) {
+  const { conversationId, groupId, scopeName } = route.params || {};
+  const { user } = useAuth();
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [isScoped, setIsScoped] = useState(!!(conversationId || groupId));
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const [sentByMe, setSentByMe] = useState(false);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Ignore responses to searches that have since been replaced
+  const searchIdRef = useRef(0);
+
+  const getFilters = (): MessageSearchFilters => ({
+    conversationId: isScoped ? conversationId : undefined,
+    groupId: isScoped ? groupId : undefined,
+    senderId: sentByMe ? user?.id : undefined,
+    from: getRangeStart(dateRange),
+  });
+
+  // Debounce searches while typing
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    const searchId = ++searchIdRef.current;
+    if (!trimmedQuery) {
+      setResults([]);
+      setTotalPages(0);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await messagesAPI.searchMessages(trimmedQuery, getFilters(), 1);
+        if (searchId !== searchIdRef.current) return;
+        setResults(data.results || []);
+        setPage(1);
+        setTotalPages(data.totalPages || 0);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+      } finally {
+        if (searchId === searchIdRef.current) setIsLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query, isScoped, dateRange, sentByMe]);
+
+  const loadMore = async () => {
+    if (isLoading || isLoadingMore || page >= totalPages) return;
+
+    const searchId = searchIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const data = await messagesAPI.searchMessages(query.trim(), getFilters(), page + 1);
+      if (searchId !== searchIdRef.current) return;
+      setResults(prev => [...prev, ...(data.results || [])]);
+      setPage(page + 1);
+    } catch (error) {
+      console.error('Error loading more search results:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const openResult = ({ message }: MessageSearchResult) => {
+    if (message.group && typeof message.group !== 'string') {
+      navigation.navigate('Chat', { userId: message.group._id, isGroup: true, focusMessageId: message._id });
+      return;
+    }
+    const receiverId = typeof message.receiver === 'string' ? message.receiver : message.receiver?._id;
+    const otherUserId = message.sender._id === user?.id ? receiverId : message.sender._id;
+    navigation.navigate('Chat', { userId: otherUserId, isGroup: false, focusMessageId: message._id });
+  };
+
+  const getChatName = ({ message }: MessageSearchResult): string => {
+    if (message.group && typeof message.group !== 'string') {
+      return message.group.name;
+    }
+    if (message.sender._id === user?.id) {
+      return typeof message.receiver === 'string' ? 'Conversation' : message.receiver?.name || 'Conversation';
+    }
+    return message.sender.name;
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: theme.colors.border },
+        isActive && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isActive }}
+    >
+      <Text style={[styles.chipText, { color: isActive ? '#fff' : theme.colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const isMine = item.message.sender._id === user?.id;
+    return (
+      <TouchableOpacity
+        style={[styles.resultItem, { borderBottomColor: theme.colors.border }]}
+        onPress={() => openResult(item)}
+      >
+        <View style={styles.resultHeader}>
+          <Text style={[styles.resultTitle, { color: theme.colors.text }]} numberOfLines={1}>
+            {getChatName(item)}
+          </Text>
+          <Text style={[styles.resultDate, { color: theme.colors.textTertiary }]}>
+            {format(new Date(item.message.createdAt), 'MMM d, yyyy')}
+          </Text>
+        </View>
+        <Text style={[styles.resultSnippet, { color: theme.colors.textSecondary }]} numberOfLines={3}>
+          {(isMine || item.message.group) && (
+            <Text style={styles.resultSender}>{isMine ? 'You' : item.message.sender.name}: </Text>
+          )}
+          {getSnippetParts(item).map((part, index) => (
+            <Text
+              key={index}
+              style={part.highlighted ? [styles.highlight, { color: theme.colors.text }] : undefined}
+            >
+              {part.text}
+            </Text>
+          ))}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Header
+        title="Search"
+        onMenuPress={() => navigation.goBack()}
+        isMenuOpen={false}
+        onHomePress={() => navigation.navigate('Conversations')}
+      />
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={[styles.searchContainer, { borderBottomColor: theme.colors.border }]}>
+          <TextInput
+            style={[
+              styles.searchInput,
+              {
+                backgroundColor: theme.colors.input,
+                borderColor: theme.colors.border,
+                color: theme.colors.inputText,
+              }
+            ]}
+            placeholder="Search messages..."
+            placeholderTextColor={theme.colors.textTertiary}
+            value={query}
+            onChangeText={setQuery}
+            autoCapitalize="none"
+            autoFocus
+            returnKeyType="search"
+          />
+          <View style={styles.chipRow}>
+            {isScoped && (
+              <TouchableOpacity
+                style={[styles.chip, styles.scopeChip, { backgroundColor: theme.colors.secondary, borderColor: theme.colors.border }]}
+                onPress={() => setIsScoped(false)}
+                accessibilityRole="button"
+                accessibilityLabel="Search all conversations"
+              >
+                <Text style={[styles.chipText, { color: theme.colors.text }]} numberOfLines={1}>
+                  In {scopeName || 'this chat'}
+                </Text>
+                <X size={14} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+            {renderChip('Sent by me', sentByMe, () => setSentByMe(!sentByMe))}
+          </View>
+          <View style={styles.chipRow}>
+            {DATE_RANGES.map(({ key, label }) => renderChip(label, dateRange === key, () => setDateRange(key)))}
+          </View>
+        </View>
+
+        {isLoading ? (
+          <View style={[styles.centerContainer, { backgroundColor: theme.colors.background }]}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={results}
+            renderItem={renderResult}
+            keyExtractor={(item) => item.message._id}
+            contentContainerStyle={styles.listContent}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            keyboardShouldPersistTaps="handled"
+            ListFooterComponent={
+              isLoadingMore ? <ActivityIndicator style={styles.footerLoader} color={theme.colors.primary} /> : null
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Text style={[styles.emptyText, { color: theme.colors.textTertiary }]}>
+                  {query.trim() ? 'No messages found' : 'Search your conversations and groups'}
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchContainer: {
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  scopeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 200,
+    gap: 4,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  listContent: {
+    flexGrow: 1,
+  },
+  resultItem: {
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  resultTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: 10,
+  },
+  resultDate: {
+    fontSize: 12,
+  },
+  resultSnippet: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  resultSender: {
+    fontWeight: '600',
+  },
+  highlight: {
+    fontWeight: '700',
+    backgroundColor: 'rgba(255, 214, 10, 0.35)',
+  },
+  footerLoader: {
+    paddingVertical: 15,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: 100,
+  },
+  emptyText: {
+    fontSize: 16,
+  },
+});
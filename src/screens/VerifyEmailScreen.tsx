@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../context/AuthContext';
+import { authAPI } from '../config/api';
+
+const CODE_LENGTH = 6;
+
+// Matches the server's minimum time between two codes
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function VerifyEmailScreen({ route, navigation }: any) {
+  const initialEmail: string = route.params?.email || '';
+  const [email, setEmail] = useState(initialEmail);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  // A code was just sent when arriving from Sign Up
+  const [resendIn, setResendIn] = useState(initialEmail ? RESEND_COOLDOWN_SECONDS : 0);
+  const { verifyEmail } = useAuth();
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timeout = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [resendIn]);
+
+  const handleVerify = async () => {
+    if (!email.trim() || code.trim().length !== CODE_LENGTH) {
+      Alert.alert('Error', `Please enter your email and the ${CODE_LENGTH}-digit code`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // On success the navigator switches to the signed-in screens
+      await verifyEmail(email.trim(), code.trim());
+    } catch (error: any) {
+      Alert.alert('Verification Failed', error.message || 'Invalid verification code');
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email');
+      return;
+    }
+
+    setIsResending(true);
+    try {
+      const result = await authAPI.resendVerification(email.trim());
+      setResendIn(RESEND_COOLDOWN_SECONDS);
+      Alert.alert('Code Sent', result.message || 'A new code has been sent to your email');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to resend code');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const isBusy = isLoading || isResending;
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+      >
+        <View style={styles.content}>
+          <Text style={styles.title}>Verify your email</Text>
+          <Text style={styles.subtitle}>
+            {initialEmail
+              ? `We sent a ${CODE_LENGTH}-digit code to ${initialEmail}`
+              : `Enter the ${CODE_LENGTH}-digit code from your verification email`}
+          </Text>
+
+          <View style={styles.form}>
+            {!initialEmail && (
+              <TextInput
+                style={styles.input}
+                placeholder="Email"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+                textContentType="emailAddress"
+                editable={!isBusy}
+              />
+            )}
+
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="000000"
+              value={code}
+              onChangeText={(text) => setCode(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={CODE_LENGTH}
+              textContentType="oneTimeCode"
+              autoComplete="one-time-code"
+              autoFocus={!!initialEmail}
+              editable={!isBusy}
+            />
+
+            <TouchableOpacity
+              style={[styles.button, isBusy && styles.buttonDisabled]}
+              onPress={handleVerify}
+              disabled={isBusy}
+            >
+              {isLoading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Verify</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={handleResend}
+              disabled={isBusy || resendIn > 0}
+            >
+              <Text style={[styles.linkText, (isBusy || resendIn > 0) && styles.linkTextDisabled]}>
+                {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate('Login')}
+              disabled={isBusy}
+            >
+              <Text style={styles.linkText}>Back to sign in</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 40,
+    color: '#666',
+  },
+  form: {
+    width: '100%',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 15,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 15,
+  },
+  linkTextDisabled: {
+    color: '#999',
+  },
+});
@@ -3,6 +3,10 @@ export type Message = {
   content: string;
   createdAt: string;
   isRead: boolean;
+  // Direct messages only
+  status?: 'sent' | 'delivered' | 'read';
+  deliveredAt?: string;
+  readAt?: string;
   media?: {
     url: string;
     type: 'image' | 'video';
@@ -19,16 +23,53 @@ export type Message = {
       title: string;
     };
   };
-  receiver?: {
+  // Plain id unless the server populated it
+  receiver?: string | {
     _id: string;
     name: string;
     image: string;
     role?: string;
   };
-  group?: {
+  group?: string | {
     _id: string;
     name: string;
   };
+  editedAt?: string;
+  // End of the sender's edit window
+  editableUntil?: string;
+  editHistory?: Array<{
+    content: string;
+    editedAt: string;
+  }>;
+  isDeleted?: boolean;
+  reactions?: Array<{
+    user: string;
+    emoji: string;
+  }>;
+  // Group messages recording a membership, admin or ownership change; the sender made the change
+  systemEvent?: {
+    type: 'admin_promoted' | 'admin_demoted' | 'ownership_transferred' | 'member_joined' | 'member_left';
+    target?: string;
+  };
+  // Group messages: "@Name" mentions of members, as positions within the content
+  mentions?: Array<{
+    user: string;
+    offset: number;
+    length: number;
+  }>;
+  // Quoted message when this is a reply; a plain id if the server did not populate it
+  replyTo?: string | {
+    _id: string;
+    content: string;
+    sender?: {
+      _id: string;
+      name: string;
+    };
+    media?: {
+      type: 'image' | 'video';
+    };
+    isDeleted?: boolean;
+  };
 };
 
 export type Conversation = {
@@ -47,6 +88,9 @@ export type Conversation = {
     content: string;
     isRead: boolean;
     createdAt: string;
+    media?: {
+      type: 'image' | 'video';
+    };
   };
   unreadCount: number;
 };
@@ -71,6 +115,9 @@ export type Group = {
     content: string;
     isRead: boolean;
     createdAt: string;
+    media?: {
+      type: 'image' | 'video';
+    };
   } | null;
   unreadCount: number;
   __v?: number;
@@ -82,3 +129,165 @@ export type Group = {
   opportunityId?: string;
 };
 
+
+// Payload of the `message:read` socket event
+export type MessageReadEvent = {
+  conversationId?: string;
+  groupId?: string;
+  readerId: string;
+  readAt: string;
+};
+
+type GroupMember = Group['members'][number];
+
+// Read state of one group message, from the readers endpoint
+export type MessageReaders = {
+  message: Message;
+  readers: Array<{
+    user: GroupMember;
+    readAt: string;
+  }>;
+  unread: GroupMember[];
+};
+
+// Payload of the `message:delivered` socket event
+export type MessageDeliveredEvent = {
+  conversationId: string;
+  deliveredAt: string;
+};
+
+// Online status of a user; lastSeen is null when they hide it
+export type UserPresence = {
+  userId: string;
+  isOnline: boolean;
+  lastSeen: string | null;
+};
+
+export type NotificationMode = 'all' | 'mentions' | 'muted';
+
+// Push notification settings for one conversation or group
+export type NotificationSettings = {
+  mode: NotificationMode;
+  // Muted until this time; null while muted means muted forever
+  mutedUntil: string | null;
+};
+
+// Something the current user may do with a group, as decided by the server
+export type GroupAction =
+  | 'view'
+  | 'send_message'
+  | 'update_group'
+  | 'add_members'
+  | 'manage_invites'
+  | 'remove_members'
+  | 'delete_messages'
+  | 'manage_admins'
+  | 'transfer_ownership'
+  | 'leave_group'
+  | 'delete_group';
+
+// An invite code for a group, as listed to its admins
+export type GroupInvite = {
+  _id: string;
+  code: string;
+  expiresAt: string;
+  // null when the invite can be used any number of times
+  maxUses: number | null;
+  uses: number;
+  requiresApproval: boolean;
+  createdBy: {
+    _id: string;
+    name: string;
+  };
+  createdAt: string;
+};
+
+// What someone following an invite link sees before joining
+export type InvitePreview = {
+  code: string;
+  group: {
+    _id: string;
+    name: string;
+    description?: string;
+    avatar?: string;
+    memberCount: number;
+  };
+  requiresApproval: boolean;
+  expiresAt: string;
+  isMember: boolean;
+  hasPendingRequest: boolean;
+};
+
+// Outcome of joining through an invite: in the group now, or waiting for an admin
+export type JoinGroupResult = {
+  status: 'joined' | 'pending';
+  groupId: string;
+};
+
+// Someone asking to join a group through an approval-required invite
+export type GroupJoinRequest = {
+  _id: string;
+  user: {
+    _id: string;
+    name: string;
+    image?: string;
+    role?: string;
+  };
+  createdAt: string;
+};
+
+// When pushes are silenced or held for a summary, in the user's timezone
+export type QuietHours = {
+  enabled: boolean;
+  // "HH:mm"; the window may cross midnight
+  start: string;
+  end: string;
+  delivery: 'silent' | 'summary';
+};
+
+// A device the user is signed in on
+export type DeviceSession = {
+  id: string;
+  deviceName: string | null;
+  platform: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+  hasPushToken: boolean;
+  // The device making the request
+  current: boolean;
+};
+
+// Payload of the `typing` socket event
+export type TypingEvent = {
+  conversationId?: string;
+  groupId?: string;
+  userId: string;
+  name: string;
+  isTyping: boolean;
+};
+
+// One hit from the message search endpoint
+export type MessageSearchResult = {
+  message: Message;
+  snippet: string;
+  // Character ranges of matched words within the snippet
+  highlights: Array<{
+    start: number;
+    length: number;
+  }>;
+};
+
+export type MessageSearchFilters = {
+  conversationId?: string;
+  groupId?: string;
+  senderId?: string;
+  from?: string;
+  to?: string;
+};
+
+// A local file picked for upload as a media message
+export type MediaUpload = {
+  uri: string;
+  name: string;
+  type: string;
+};